@@ -2,7 +2,7 @@ import chalk from "chalk";
 import {input, select,confirm} from "@inquirer/prompts";
 import ora from "ora";
 import { render } from "cfonts";
-import { completeMultipartUpload, createMultipartUpload, deleteObject, getObject, initR2Client, listBuckets, listObjectsV2, putObject, uploadPart } from "./src";
+import { applyBucketPlan, applySyncPlan, computeUsage, deleteObject, downloadToFile, exportBucketConfig, getPublicBaseUrl, getR2Context, initR2Client, isAborted, isAccessDenied, isInvalidCredentials, isNotFound, listBuckets, listObjectsV2, loadBucketConfig, planBucketConfig, saveBucketConfig, setStorageClass, syncDirectory, upload, STORAGE_CLASSES, type BucketChange, type R2StorageClass, type UsageReport, type UsageStats, type SyncAction, type SyncOptions } from "./src";
 
 
 
@@ -60,6 +60,22 @@ const loading = ora({
   }
 })
 
+/**
+ * 执行可取消的传输操作：期间按 Ctrl+C 取消当前传输而不是退出程序
+ * @param task 接收取消信号的传输操作
+ * @returns 操作结果
+ */
+async function cancellable<T>(task: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const controller = new AbortController();
+  const onSigint = () => controller.abort();
+  process.on("SIGINT", onSigint);
+  try {
+    return await task(controller.signal);
+  } finally {
+    process.off("SIGINT", onSigint);
+  }
+}
+
 /**
  * 初始化 R2 客户端
  * @returns 是否初始化成功
@@ -77,6 +93,7 @@ function initR2():boolean{
       accountId,
       accessKeyId,
       secretAccessKey,
+      apiToken: accountToken,
     });
     return true;
   }
@@ -86,7 +103,7 @@ function initR2():boolean{
  * 获取所有存储桶
  * @returns 存储桶列表，如果失败则返回 null
  */
-async function listAllBuckets(): Promise<({name: string, createTime: string}|null)[] | null> {
+async function listAllBuckets(): Promise<({name: string, createTime: string, location?: string, storageClass?: string}|null)[] | null> {
   try {
     const result = await listBuckets();
 
@@ -96,6 +113,8 @@ async function listAllBuckets(): Promise<({name: string, createTime: string}|nul
         return {
           name: bucket.Name,
           createTime: CreateTime,
+          location: bucket.Location,
+          storageClass: bucket.StorageClass,
         };
       }else{
         return null;
@@ -107,7 +126,7 @@ async function listAllBuckets(): Promise<({name: string, createTime: string}|nul
       return null;
     }
   } catch (error: any) {
-    if (error.name === 'AccessDenied') {
+    if (isAccessDenied(error) || isInvalidCredentials(error)) {
       console.error('❌ 访问被拒绝，请检查您的凭证配置是否正确');
       console.error('   - Account ID 是否正确');
       console.error('   - Access Key ID 是否正确');
@@ -121,46 +140,24 @@ async function listAllBuckets(): Promise<({name: string, createTime: string}|nul
 }
 
 /**
- * 获取已启用的存储桶自定义域名列表
+ * 获取存储桶的公开访问地址（自定义域名或 r2.dev）
  * @param bucketName 存储桶名称
- * @returns 自定义域名列表
+ * @returns 公开访问地址，如果未公开或获取失败则返回 null
  */
-export async function getBucketDomains(bucketName: string) {
-
-  interface Domain {
-    domain: string;
-    status:{
-      ssl:string;
-      ownership:string
-    }
-    enabled:boolean;
+async function getBucketBaseUrl(bucketName: string) {
+  // 未配置 API 令牌时无法查询域名，不显示文件链接
+  if (!getR2Context().config.apiToken) {
+    return null;
   }
-
-  try{
-
-    if(!process.env.R2_ACCOUNT_TOKEN){
-      throw new Error('R2_ACCOUNT_TOKEN 未配置');
-    }
-
-    const response = await fetch(`https://api.cloudflare.com/client/v4/accounts/${process.env.R2_ACCOUNT_ID}/r2/buckets/${bucketName}/domains/custom`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${process.env.R2_ACCOUNT_TOKEN}`,
-      },
-    });
-
-    if(!response.ok){
-      throw new Error('获取自定义域名失败');
+  try {
+    return await getPublicBaseUrl(bucketName);
+  } catch (error: any) {
+    if (isAccessDenied(error) || isInvalidCredentials(error)) {
+      console.error('❌ 获取存储桶域名失败，请检查 R2_ACCOUNT_TOKEN 是否有 R2 读取权限');
+    } else {
+      console.error('❌ 获取存储桶域名失败:', error.message);
     }
-
-    const data = await response.json() as {result: {domains: Domain[]}};
-    
-    // 获取已启用的自定义域名
-    const domains = data.result.domains.map(item => item.enabled ? item.domain : null).filter(item => item !== null);
-    return domains;
-  } catch (error) {
-    console.error('获取自定义域名失败:', error);
-    return [];
+    return null;
   }
 }
 
@@ -175,13 +172,14 @@ async function listFiles(bucket:string, option?:{maxLength?:number}) {
     const result = await listObjectsV2(bucket, {
       maxKeys: option?.maxLength || 10,
     });
-    const domains = await getBucketDomains(bucket);    
+    const baseUrl = await getBucketBaseUrl(bucket);
     if (result.Contents && result.Contents.length > 0) {
       const files = result.Contents.map((file, index) => {
-        const fileUrl = domains.length > 0 ? 'https://' + domains[0] + '/' + file.Key : '';
+        const fileUrl = baseUrl && file.Key ? baseUrl + '/' + encodeURI(file.Key) : '';
         return {
           fileName: file.Key,
           fileSize: file.Size,
+          storageClass: file.StorageClass ?? "STANDARD",
           fileUrl: fileUrl,
         };
       });
@@ -191,10 +189,10 @@ async function listFiles(bucket:string, option?:{maxLength?:number}) {
       return [];
     }
   } catch (error: any) {
-    if (error.name === 'NoSuchBucket') {
+    if (isNotFound(error)) {
       console.error(`❌ 存储桶 "${bucket}" 不存在`);
       console.error(`   请先在 Cloudflare R2 控制台创建此存储桶`);
-    } else if (error.name === 'AccessDenied') {
+    } else if (isAccessDenied(error)) {
       console.error('❌ 访问被拒绝，请检查凭证权限');
     } else {
       console.error('❌ 列出文件失败:', error.message);
@@ -210,19 +208,30 @@ async function listFiles(bucket:string, option?:{maxLength?:number}) {
  * @param option 可选配置
  */
 async function downloadFile(bucket:string, fileName:string, option?:{customFileName?:string}) {
+  const filePath = process.cwd()+"/downloads/"+(option?.customFileName || fileName);
   try {
-    const result = await getObject(bucket, fileName);
-
-    // 读取文件内容
-    const content = await result.Body?.transformToByteArray();
-    if (!content) {
-      throw new Error('文件内容为空');
-    }
-    await Bun.write(process.cwd()+"/downloads/"+(option?.customFileName || fileName), content);
-    console.log('文件下载成功:', process.cwd()+"/downloads/"+(option?.customFileName || fileName));
+    loading.start("正在下载 " + fileName);
+    // 大文件自动并行分块下载，中断后再次下载会从断点继续
+    await cancellable((signal) => downloadToFile(bucket, fileName, filePath, {
+      resume: true,
+      signal,
+      onProgress: ({ loaded, total }) => {
+        const ratio = total ? loaded / total : 1;
+        const filled = Math.floor(ratio * 50);
+        loading.text = "正在下载 " + fileName + " (共 " + (total / 1024 / 1024).toFixed(2) + " MB)\n" + "【" + "#".repeat(filled) + " ".repeat(50 - filled) + "】" + (ratio * 100).toFixed(0) + "%";
+      },
+    }));
+    loading.succeed(chalk.green('文件下载成功: ' + filePath));
     await input({ message: chalk.gray('按回车键继续...') ,theme:{prefix: ""}});
   } catch (error) {
-    console.error('文件下载失败:', error);
+    if (isAborted(error)) {
+      loading.warn(chalk.yellow('已取消下载，再次下载该文件将从断点继续'));
+      await input({ message: chalk.gray('按回车键继续...') ,theme:{prefix: ""}});
+      return;
+    }
+    loading.fail(chalk.red('文件下载失败'));
+    console.error(error);
+    await input({ message: chalk.gray('按回车键继续...') ,theme:{prefix: ""}});
   }
 }
 
@@ -243,96 +252,370 @@ async function deleteFile(bucket:string, fileName:string) {
 }
 
 /**
- * 上传文件
+ * 修改文件的存储类型（原地复制，响应头和元数据保持不变）
+ * @param bucket 存储桶名称
+ * @param fileName 文件名称
+ */
+async function changeStorageClass(bucket:string, fileName:string) {
+  const storageClass = await select<R2StorageClass>({
+    message: "请选择存储类型",
+    choices: STORAGE_CLASSES.map((value) => ({
+      name: value,
+      value,
+      description: value === "STANDARD_IA" ? "低频访问：存储费用更低，读取收取检索费用，最短存储 30 天" : "标准存储",
+    })),
+    theme: { style: { description: chalk.gray }, prefix: "" },
+  });
+  try {
+    loading.start("正在修改 " + fileName + " 的存储类型");
+    await cancellable((signal) => setStorageClass(bucket, fileName, storageClass, { signal }));
+    loading.succeed(chalk.green(fileName + " 的存储类型已修改为 " + storageClass));
+  } catch (error) {
+    if (isAborted(error)) {
+      loading.warn(chalk.yellow("已取消修改存储类型"));
+    } else {
+      loading.fail(chalk.red("修改存储类型失败"));
+      console.error(error);
+    }
+  }
+  await input({ message: chalk.gray('按回车键继续...') ,theme:{prefix: ""}});
+}
+
+/**
+ * 上传文件（大文件自动使用并发分段上传）
  * @param bucket 存储桶名称
  * @param filePath 文件路径
  * @param option 可选配置
  */
 async function uploadFile(bucket:string, filePath:string, option?:{customFileName?:string}) {
+  const fileName = option?.customFileName || getFileName(filePath);
+  const file = Bun.file(filePath);
+  const totalMB = (file.size / 1024 / 1024).toFixed(2);
   try {
-    const file = new File([await Bun.file(filePath).bytes()], option?.customFileName || getFileName(filePath));
-    // 大于 300 MB
-    // if(file.size > 300 * 1024 * 1024){
-    //   console.log('文件大于 300 MB, 使用分段上传');
-    //   await multipartUpload(bucket, filePath, {
-    //     chunkSize: 50 * 1024 * 1024,
-    //     customFileName: option?.customFileName || getFileName(filePath),
-    //   });
-    //   return;
-    // }
-    loading.start("正在上传" + file.name + " (共 " + (file.size / 1024 /1024).toFixed(2) + " MB)");
-    const content = await file.bytes();
-    await putObject(bucket,file.name, content, {
-      contentType: file.type,
-    });
-    loading.succeed(chalk.green("文件上传成功"+file.name));
+    loading.start("正在上传 " + fileName + " (共 " + totalMB + " MB)");
+    await cancellable((signal) => upload(bucket, fileName, filePath, {
+      // 中断（如 Ctrl+C）后再次上传同一文件时从检查点续传
+      resumable: true,
+      signal,
+      onProgress: ({ loaded, total }) => {
+        const ratio = total ? loaded / total : 0;
+        const filled = Math.floor(ratio * 50);
+        loading.text = "正在上传 " + fileName + " (共 " + totalMB + " MB)\n" + "【" + "#".repeat(filled) + " ".repeat(50 - filled) + "】" + (ratio * 100).toFixed(0) + "%";
+      },
+    }));
+    loading.succeed(chalk.green("文件上传成功 " + fileName));
     await input({ message: chalk.gray('按回车键继续...') ,theme:{prefix: ""}});
   } catch (error) {
+    if (isAborted(error)) {
+      loading.warn(chalk.yellow("已取消上传，再次上传该文件将从断点继续"));
+      await input({ message: chalk.gray('按回车键继续...') ,theme:{prefix: ""}});
+      return;
+    }
     loading.fail(chalk.red("文件上传失败\n"));
+    console.error(error);
     await input({ message: chalk.gray('按回车键继续...') ,theme:{prefix: ""}});
   }
 }
 
 /**
- * 分段上传大文件
+ * 同步本地目录与存储桶前缀：先打印同步计划，确认后执行
  * @param bucket 存储桶名称
- * @param filePath 文件路径
- * @param option 可选配置，chunkSize 分段大小，customFileName 自定义文件名，默认使用文件名
  */
-async function multipartUpload(bucket:string, filePath:string ,option?:{chunkSize?:number, customFileName?:string}) {
-  
-  const file = new File([await Bun.file(filePath).bytes()], option?.customFileName || getFileName(filePath));
-  const fileName = file.name;
-  const totalSize = file.size;
-  const chunkSize = option?.chunkSize || 50 * 1024 * 1024; // 默认分段大小为 50MB
+async function syncFolder(bucket:string) {
+  const direction = await select({
+    message: "同步方向",
+    choices: [
+      { name: "上传", value: "upload" as const, description: "本地目录 → 存储桶" },
+      { name: "下载", value: "download" as const, description: "存储桶 → 本地目录" },
+    ],
+    theme: { prefix: "" },
+  });
+  const localDir = await input({ message: "请输入本地目录的绝对路径", theme: { prefix: "" } });
+  const prefix = await input({ message: "请输入存储桶中的前缀（留空表示整个存储桶）", theme: { prefix: "" } });
+  const splitGlobs = (value: string) => value.split(",").map((item) => item.trim()).filter(Boolean);
+  const include = splitGlobs(await input({ message: "只同步匹配的文件（glob，逗号分隔，不含 / 时匹配文件名，留空表示全部）", theme: { prefix: "" } }));
+  const exclude = splitGlobs(await input({ message: "排除匹配的文件（glob，逗号分隔，不含 / 时匹配文件名，如 *.tmp，可留空）", theme: { prefix: "" } }));
+  const deleteExtraneous = await confirm({
+    message: direction === "upload" ? "是否删除存储桶中本地不存在的文件？" : "是否删除本地目录中存储桶不存在的文件？",
+    default: false,
+  });
+  const options: SyncOptions = { direction, include, exclude, deleteExtraneous };
+  const labels: Record<SyncAction["type"], string> = {
+    upload: chalk.green("上传"),
+    download: chalk.green("下载"),
+    delete: chalk.red("删除"),
+  };
+  const reasons: Record<SyncAction["reason"], string> = {
+    new: "新文件",
+    size: "大小不同",
+    mtime: "修改时间不同",
+    checksum: "内容不同",
+    extraneous: "源中不存在",
+  };
 
   try {
-    // 1. 创建分段上传
-    const { UploadId } = await createMultipartUpload(bucket, fileName, {
-      contentType: 'application/octet-stream',
-    });
+    clearScreen();
+    loading.start("正在比较文件...");
+    const plan = await cancellable((signal) => syncDirectory(localDir, bucket, prefix, { ...options, dryRun: true, signal }));
+    loading.stop();
+    if (plan.actions.length === 0) {
+      loading.succeed(chalk.green(`已是最新，无需同步（${plan.skipped} 个文件一致）`));
+      await input({ message: chalk.gray('按回车键继续...') ,theme:{prefix: ""}});
+      return;
+    }
+    console.log(chalk.bold("同步计划"));
+    for (const action of plan.actions) {
+      console.log(`  ${labels[action.type]} ${action.path} ${chalk.gray(`(${(action.size / 1024).toFixed(1)} KB, ${reasons[action.reason]})`)}`);
+    }
+    console.log(chalk.gray(`共 ${plan.actions.length} 项操作，${plan.skipped} 个文件一致`));
+    if (!(await confirm({ message: "确定执行同步吗？", default: false }))) {
+      return;
+    }
 
-    if (!UploadId) {
-      throw new Error('获取上传ID失败');
-    }
-
-    // 2. 上传分段
-    const parts = [];
-    const fileBuff = await file.bytes();
-    loading.start("正在上传 " + file.name + " (共 " + (totalSize / 1024 / 1024).toFixed(2) + " MB)\n" + "【"+" ".repeat(50)+"】" + "0%");
-    for (let i = 0; i < totalSize / chunkSize; i++) {
-      // 获取分段数据,最后一块可能不足 chunkSize
-      const chunk = Buffer.from(fileBuff.slice(i * chunkSize, (i + 1) * chunkSize > totalSize ? totalSize : (i + 1) * chunkSize));
-      const partNumber = i + 1;
-
-      const { ETag } = await uploadPart(
-        bucket,
-        fileName,
-        UploadId,
-        partNumber,
-        chunk
-      );
-
-      parts.push({ PartNumber: partNumber, ETag: ETag! });
-      loading.text = "正在上传 " + file.name + " (共 " + (totalSize / 1024 / 1024).toFixed(2) + " MB)\n" + "【"+"#".repeat(Math.floor(partNumber / (totalSize / chunkSize) * 50))+" ".repeat(50 - Math.floor(partNumber / (totalSize / chunkSize) * 50))+"】"+(partNumber / (totalSize / chunkSize) * 100).toFixed(0)+ "%";
-    }
-
-    // 3. 完成分段上传
-    const result = await completeMultipartUpload(
-      bucket,
-      fileName,
-      UploadId,
-      parts
-    );
-    console.log("\r\x1b[K"); // 清空当前行
-    loading.succeed(chalk.green("分段上传完成"+fileName));
+    let completed = 0;
+    loading.start("正在同步...");
+    const result = await cancellable((signal) => applySyncPlan(localDir, bucket, plan, {
+      signal,
+      onAction: (action) => {
+        completed++;
+        loading.text = `正在同步 (${completed}/${plan.actions.length}) ${action.path}`;
+      },
+    }));
+    if (result.failed.length > 0) {
+      loading.warn(chalk.yellow(`同步完成，${result.failed.length} 项失败`));
+      for (const { action, error } of result.failed) {
+        console.error(`  ${labels[action.type]} ${action.path}: ${(error as Error)?.message ?? error}`);
+      }
+    } else {
+      loading.succeed(chalk.green(`同步完成，共 ${result.actions.length} 项操作`));
+    }
     await input({ message: chalk.gray('按回车键继续...') ,theme:{prefix: ""}});
-  } catch (error: any) {
-    loading.fail(chalk.red("分段上传失败\n"));
+  } catch (error) {
+    if (isAborted(error)) {
+      loading.warn(chalk.yellow("已取消同步"));
+    } else {
+      loading.fail(chalk.red("同步失败"));
+      console.error(error);
+    }
+    await input({ message: chalk.gray('按回车键继续...') ,theme:{prefix: ""}});
+  }
+}
+
+/**
+ * 格式化字节数
+ * @param bytes 字节数
+ * @returns 如 "1.5 GB"
+ */
+function formatBytes(bytes: number) {
+  const units = ["B", "KB", "MB", "GB", "TB", "PB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * 打印对齐的表格（按显示宽度对齐，兼容中文）
+ * @param title 表格标题
+ * @param headers 表头
+ * @param rows 表格内容
+ */
+function printTable(title: string, headers: string[], rows: string[][]) {
+  const widths = headers.map((header, i) => Math.max(Bun.stringWidth(header), ...rows.map((row) => Bun.stringWidth(row[i] ?? ""))));
+  const format = (cells: string[]) => cells.map((cell, i) => {
+    const padding = " ".repeat(widths[i]! - Bun.stringWidth(cell));
+    // 第一列左对齐，其余（数字）右对齐
+    return i === 0 ? cell + padding : padding + cell;
+  }).join("  ");
+  console.log(chalk.bold(`\n${title}`));
+  console.log(chalk.gray(format(headers)));
+  for (const row of rows) {
+    console.log(format(row));
+  }
+}
+
+/**
+ * 打印存储用量报告
+ * @param report 用量报告
+ */
+function printUsageReport(report: UsageReport) {
+  const percent = (stats: UsageStats) => report.total.bytes > 0 ? `${(stats.bytes / report.total.bytes * 100).toFixed(1)}%` : "-";
+  const statsRow = (name: string, stats: UsageStats) => [name, String(stats.count), formatBytes(stats.bytes), percent(stats)];
+  const headers = ["", "对象数", "大小", "占比"];
+
+  console.log(chalk.bold(`${report.bucket}/${report.prefix}`) + chalk.gray(` 共 ${report.total.count} 个对象，${formatBytes(report.total.bytes)}`));
+  if (report.prefixes.length > 0) {
+    const rows = report.prefixes.map((usage) => statsRow("  ".repeat(usage.depth - 1) + usage.prefix.slice(report.prefix.length), usage));
+    if (report.files.count > 0) {
+      rows.push(statsRow("(files)", report.files));
+    }
+    printTable("按前缀", ["前缀", ...headers.slice(1)], rows);
+  }
+  printTable("按扩展名", ["扩展名", ...headers.slice(1)], report.byExtension.slice(0, 10).map((usage) => statsRow(usage.extension || "(无扩展名)", usage)));
+  printTable("按内容类型", ["内容类型", ...headers.slice(1)], report.byContentType.slice(0, 10).map((usage) => statsRow(usage.contentType, usage)));
+  printTable("按存储类型", ["存储类型", ...headers.slice(1)], report.byStorageClass.map((usage) => statsRow(usage.storageClass, usage)));
+  printTable("按修改时间", ["距今", ...headers.slice(1)], report.byAge.map((usage) => statsRow(usage.maxDays === undefined ? `${usage.minDays} 天以上` : `${usage.minDays}-${usage.maxDays} 天`, usage)));
+  printTable("最大的对象", ["对象", "大小", "修改时间"], report.largest.map((object) => [object.key, formatBytes(object.size), object.lastModified?.toISOString().slice(0, 10) ?? ""]));
+}
+
+/**
+ * 统计存储桶或前缀的存储用量，以表格显示，可保存为 JSON
+ * @param bucket 存储桶名称
+ */
+async function showUsage(bucket:string) {
+  const prefix = await input({ message: "请输入要统计的前缀（留空表示整个存储桶）", theme: { prefix: "" } });
+  const depth = Number(await input({
+    message: "按前缀汇总的层级数",
+    default: "1",
+    validate: (value) => Number.isInteger(Number(value)) && Number(value) >= 0 || "请输入非负整数",
+    theme: { prefix: "" },
+  }));
+  try {
+    clearScreen();
+    loading.start("正在统计存储用量...");
+    const report = await cancellable((signal) => computeUsage(bucket, {
+      prefix,
+      depth,
+      signal,
+      onProgress: ({ count, bytes }) => {
+        loading.text = `正在统计存储用量 (${count} 个对象，${formatBytes(bytes)})`;
+      },
+    }));
+    loading.stop();
+    printUsageReport(report);
+    console.log();
+    if (await confirm({ message: "是否保存为 JSON 文件？", default: false })) {
+      const filePath = await input({ message: "请输入保存路径", default: `./${bucket}-usage.json`, theme: { prefix: "" } });
+      await Bun.write(filePath, JSON.stringify(report, null, 2) + "\n");
+      loading.succeed(chalk.green("用量报告已保存到 " + filePath));
+    }
+  } catch (error) {
+    if (isAborted(error)) {
+      loading.warn(chalk.yellow("已取消统计"));
+    } else {
+      loading.fail(chalk.red("存储用量统计失败"));
+      console.error(error);
+    }
+  }
+  await input({ message: chalk.gray('按回车键继续...') ,theme:{prefix: ""}});
+}
+
+/**
+ * 描述一项存储桶配置变更
+ * @param change 变更
+ * @returns 带颜色的描述
+ */
+function describeChange(change: BucketChange) {
+  const labels: Record<BucketChange["action"], string> = {
+    create: chalk.green("+ 新增"),
+    update: chalk.yellow("~ 修改"),
+    delete: chalk.red("- 删除"),
+  };
+  const resources: Record<BucketChange["resource"], string> = {
+    bucket: "存储桶",
+    cors: "CORS 规则",
+    lifecycle: "生命周期规则",
+    encryption: "加密配置",
+    customDomain: "自定义域名",
+    managedDomain: "r2.dev 地址",
+  };
+  let detail = "";
+  if (change.resource === "cors" || change.resource === "lifecycle") {
+    detail = `(${change.before.length} 条 → ${change.after.length} 条)`;
+  } else if (change.resource === "customDomain") {
+    detail = change.domain;
+  } else if (change.resource === "encryption") {
+    detail = `(${change.before ?? "无"} → ${change.after})`;
+  } else if (change.resource === "managedDomain") {
+    detail = change.after ? "(启用)" : "(禁用)";
+  }
+  return `${labels[change.action]} ${chalk.bold(change.bucket)} ${resources[change.resource]} ${chalk.gray(detail)}`;
+}
+
+/**
+ * 应用声明式配置文件：先打印变更计划，确认后执行
+ */
+async function applyConfigFile() {
+  const filePath = await input({ message: "请输入配置文件的路径（.json / .yaml）", theme: { prefix: "" } });
+  try {
+    clearScreen();
+    const specs = await loadBucketConfig(filePath);
+    loading.start("正在比较存储桶配置...");
+    const changes = await cancellable((signal) => planBucketConfig(specs, { signal }));
+    loading.stop();
+    if (changes.length === 0) {
+      loading.succeed(chalk.green(`已是最新，无需修改（${specs.length} 个存储桶）`));
+      await input({ message: chalk.gray('按回车键继续...') ,theme:{prefix: ""}});
+      return;
+    }
+    console.log(chalk.bold("变更计划"));
+    for (const change of changes) {
+      console.log(`  ${describeChange(change)}`);
+    }
+    console.log(chalk.gray(`共 ${changes.length} 项变更`));
+    if (!(await confirm({ message: "确定执行变更吗？", default: false }))) {
+      return;
+    }
+
+    let completed = 0;
+    loading.start("正在应用配置...");
+    const result = await cancellable((signal) => applyBucketPlan(changes, {
+      signal,
+      onChange: () => {
+        completed++;
+        loading.text = `正在应用配置 (${completed}/${changes.length})`;
+      },
+    }));
+    if (result.failed.length > 0) {
+      loading.warn(chalk.yellow(`配置已部分应用，${result.failed.length} 项失败，${result.skipped.length} 项跳过`));
+      for (const { change, error } of result.failed) {
+        console.error(`  ${describeChange(change)}: ${(error as Error)?.message ?? error}`);
+      }
+    } else {
+      loading.succeed(chalk.green(`配置应用完成，共 ${result.applied.length} 项变更`));
+    }
+    await input({ message: chalk.gray('按回车键继续...') ,theme:{prefix: ""}});
+  } catch (error) {
+    if (isAborted(error)) {
+      loading.warn(chalk.yellow("已取消应用配置"));
+    } else {
+      loading.fail(chalk.red("应用配置失败"));
+      console.error((error as Error)?.message ?? error);
+    }
     await input({ message: chalk.gray('按回车键继续...') ,theme:{prefix: ""}});
   }
 }
 
+/**
+ * 将存储桶当前配置导出为声明式配置文件
+ * @param bucket 存储桶名称
+ */
+async function exportConfig(bucket:string) {
+  const filePath = await input({
+    message: "请输入导出文件的路径（.json / .yaml）",
+    default: `./${bucket}.yaml`,
+    theme: { prefix: "" },
+  });
+  try {
+    clearScreen();
+    loading.start("正在导出配置...");
+    const spec = await cancellable((signal) => exportBucketConfig(bucket, { signal }));
+    await saveBucketConfig(filePath, [spec]);
+    loading.succeed(chalk.green("配置已导出到 " + filePath));
+  } catch (error) {
+    if (isAborted(error)) {
+      loading.warn(chalk.yellow("已取消导出"));
+    } else {
+      loading.fail(chalk.red("配置导出失败"));
+      console.error(error);
+    }
+  }
+  await input({ message: chalk.gray('按回车键继续...') ,theme:{prefix: ""}});
+}
+
 
 async function main() {
   printTitle("cloudflare R2");
@@ -352,6 +635,9 @@ async function main() {
     // 存储桶选择循环
     if (!currentBucket) {
       const result = await BucketMenu();
+      if (!result) {
+        continue; // 回到存储桶选择菜单 BucketMenu
+      }
       if (result.type === "exit") {
         clearScreen();
         loading.succeed(chalk.green("退出 R2 管理"));
@@ -394,7 +680,7 @@ main().catch((err)=>{
  * 存储桶选择菜单
  * @returns 导航结果
  */
-async function BucketMenu(): Promise<{ type: "bucket"; bucket: string } | { type: "exit" }> {
+async function BucketMenu(): Promise<{ type: "bucket"; bucket: string } | { type: "exit" } | null> {
   clearScreen();
   loading.start("正在查询存储桶...");
   const buckets = await listAllBuckets();
@@ -407,8 +693,13 @@ async function BucketMenu(): Promise<{ type: "bucket"; bucket: string } | { type
         ...buckets.map((bucket) => ({
           name: bucket.name,
           value: bucket.name,
-          description: `存储桶: ${chalk.black.bold(bucket.name)} 创建时间: ${bucket.createTime}`,
+          description: `存储桶: ${chalk.black.bold(bucket.name)} 创建时间: ${bucket.createTime}${bucket.location ? " 位置: " + bucket.location : ""}${bucket.storageClass ? " 默认存储类型: " + bucket.storageClass : ""}`,
         })),
+        {
+          name: chalk.bold.bgBlue.white("应用配置文件"),
+          value: "apply-config",
+          description: "按声明式配置文件（JSON / YAML）创建存储桶并同步 CORS、生命周期等配置",
+        },
         {
           name: chalk.bold.bgBlue.white("退出"),
           value: "exit",
@@ -427,6 +718,10 @@ async function BucketMenu(): Promise<{ type: "bucket"; bucket: string } | { type
     if (selectBucket === "exit") {
       return { type: "exit" };
     }
+    if (selectBucket === "apply-config") {
+      await applyConfigFile();
+      return null; // 应用完成后返回存储桶菜单 BucketMenu
+    }
     return { type: "bucket", bucket: selectBucket };
   } else {
     loading.fail(chalk.red("存储桶列表获取失败"));
@@ -452,13 +747,28 @@ async function FileMenu(bucket: string): Promise<{ type: "file"; bucket: string;
         ...files.map((file) => ({
           name: file.fileName,
           value: file.fileName,
-          description: `大小: ${file.fileSize ?? 0} bytes \t ${file.fileUrl ? "地址: " + file.fileUrl : ""}`,
+          description: `大小: ${file.fileSize ?? 0} bytes \t 存储类型: ${file.storageClass} \t ${file.fileUrl ? "地址: " + file.fileUrl : ""}`,
         })),
         {
           name: chalk.bold.bgBlue.white("上传新文件"),
           value: "upload",
           description: "上传新文件",
         },
+        {
+          name: chalk.bold.bgBlue.white("同步目录"),
+          value: "sync",
+          description: "同步本地目录与存储桶（只传输有差异的文件）",
+        },
+        {
+          name: chalk.bold.bgBlue.white("存储用量"),
+          value: "usage",
+          description: "按前缀、扩展名、修改时间统计存储用量，列出最大的对象",
+        },
+        {
+          name: chalk.bold.bgBlue.white("导出配置"),
+          value: "export-config",
+          description: "将存储桶的 CORS、生命周期等配置导出为声明式配置文件",
+        },
         {
           name: chalk.bold.bgBlue.white("返回"),
           value: "back",
@@ -483,6 +793,18 @@ async function FileMenu(bucket: string): Promise<{ type: "file"; bucket: string;
       await uploadFile(bucket, filePath);
       return null; // 上传完成后返回文件菜单 FileMenu
     }
+    if (selectFile === "sync") {
+      await syncFolder(bucket);
+      return null; // 同步完成后返回文件菜单 FileMenu
+    }
+    if (selectFile === "usage") {
+      await showUsage(bucket);
+      return null; // 统计完成后返回文件菜单 FileMenu
+    }
+    if (selectFile === "export-config") {
+      await exportConfig(bucket);
+      return null; // 导出完成后返回文件菜单 FileMenu
+    }
     return { type: "file", bucket, file: selectFile as string };
   } else {
     loading.fail(chalk.red(`${bucket}的文件列表获取失败`));
@@ -514,6 +836,11 @@ async function OptionMenu(
         value: "delete",
         description: "删除文件",
       },
+      {
+        name: "修改存储类型",
+        value: "storage-class",
+        description: "在标准存储和低频访问存储之间转换",
+      },
       {
         name: "返回",
         value: "back",
@@ -546,6 +873,9 @@ async function OptionMenu(
     }
     // 删除完成后返回文件菜单
     return { type: "back" };
+  } else if (selectOption === "storage-class") {
+    await changeStorageClass(bucket, fileName);
+    return { type: "back" };
   }
 
   return { type: "back" };
@@ -1,49 +1,176 @@
 import {
   GetBucketCorsCommand,
   PutBucketCorsCommand,
+  DeleteBucketCorsCommand,
   GetBucketLifecycleConfigurationCommand,
   PutBucketLifecycleConfigurationCommand,
+  DeleteBucketLifecycleCommand,
   GetBucketLocationCommand,
   GetBucketEncryptionCommand,
   PutBucketEncryptionCommand,
   TransitionStorageClass,
+  type LifecycleRule as SdkLifecycleRule,
+  type LifecycleRuleFilter,
 } from '@aws-sdk/client-s3';
-import { getR2Client } from './config.js';
+import { createRequestSignal, sendCommand, type RequestOptions } from './config.js';
+import { cloudflareApiRequest } from './cloudflare-api.js';
+import { isR2Error } from './errors.js';
+import type { R2StorageClass } from './headers.js';
 
 /**
  * CORS 规则接口
  */
 export interface CORSRule {
   allowedHeaders?: string[];
-  allowedMethods: ('GET' | 'PUT' | 'POST' | 'DELETE' | 'HEAD')[];
+  allowedMethods: CORSMethod[];
   allowedOrigins: string[];
   exposeHeaders?: string[];
   maxAgeSeconds?: number;
 }
 
+/**
+ * CORS 规则允许的请求方法
+ */
+export type CORSMethod = 'GET' | 'PUT' | 'POST' | 'DELETE' | 'HEAD';
+
+const CORS_METHODS: ReadonlySet<string> = new Set(['GET', 'PUT', 'POST', 'DELETE', 'HEAD']);
+const MAX_CORS_RULES = 100;
+/** HTTP 头名称允许的字符（RFC 9110 token） */
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+/**
+ * 检查 CORS 来源：* 或不带路径的 http(s) 来源，主机名中最多一个 * 通配符
+ * @param origin 来源，如 "https://example.com"、"https://*.example.com"
+ * @returns 问题描述，合法时返回 null
+ */
+function checkCorsOrigin(origin: string): string | null {
+  if (origin === '*') {
+    return null;
+  }
+  if (origin.split('*').length > 2) {
+    return `origin "${origin}" may contain at most one "*" wildcard`;
+  }
+  let url: URL;
+  try {
+    url = new URL(origin.replace('*', 'wildcard'));
+  } catch {
+    return `origin "${origin}" is not a valid URL`;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return `origin "${origin}" must use http or https`;
+  }
+  if (!/^https?:\/\/[^/?#]+$/.test(origin)) {
+    return `origin "${origin}" must not contain a path, query or trailing slash`;
+  }
+  return null;
+}
+
+/**
+ * 校验 CORS 规则，在发送请求前发现手写配置中的错误
+ * @param rules CORS 规则数组
+ * @throws Error 列出所有不合法的字段
+ */
+export function validateCorsRules(rules: CORSRule[]): void {
+  const problems: string[] = [];
+  if (rules.length > MAX_CORS_RULES) {
+    problems.push(`at most ${MAX_CORS_RULES} rules are allowed, got ${rules.length}`);
+  }
+
+  rules.forEach((rule, index) => {
+    const report = (message: string) => problems.push(`rule #${index + 1}: ${message}`);
+
+    if (!rule.allowedOrigins?.length) {
+      report('allowedOrigins must not be empty');
+    }
+    for (const origin of rule.allowedOrigins ?? []) {
+      const problem = checkCorsOrigin(origin);
+      if (problem) {
+        report(problem);
+      }
+    }
+
+    if (!rule.allowedMethods?.length) {
+      report('allowedMethods must not be empty');
+    }
+    for (const method of rule.allowedMethods ?? []) {
+      if (!CORS_METHODS.has(method)) {
+        report(`method "${method}" is not one of ${[...CORS_METHODS].join(', ')}`);
+      }
+    }
+
+    for (const header of rule.allowedHeaders ?? []) {
+      if (!HEADER_NAME_PATTERN.test(header) || header.split('*').length > 2) {
+        report(`allowed header "${header}" is not a valid header name`);
+      }
+    }
+    for (const header of rule.exposeHeaders ?? []) {
+      if (!HEADER_NAME_PATTERN.test(header) || header.includes('*')) {
+        report(`expose header "${header}" is not a valid header name (wildcards are not allowed)`);
+      }
+    }
+
+    if (
+      rule.maxAgeSeconds !== undefined &&
+      (!Number.isInteger(rule.maxAgeSeconds) || rule.maxAgeSeconds < 0)
+    ) {
+      report('maxAgeSeconds must be a non-negative integer');
+    }
+  });
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid CORS configuration:\n  ${problems.join('\n  ')}`);
+  }
+}
+
 /**
  * 获取存储桶 CORS 配置
  * @param bucketName 存储桶名称
- * @returns CORS 配置
+ * @param options 可选配置（取消信号、超时）
+ * @throws NotFoundError 存储桶不存在时
+ * @returns CORS 规则数组，未配置 CORS 时返回空数组
  */
-export async function getBucketCors(bucketName: string) {
-  const client = getR2Client();
-
+export async function getBucketCors(
+  bucketName: string,
+  options?: RequestOptions
+): Promise<CORSRule[]> {
   const command = new GetBucketCorsCommand({
     Bucket: bucketName,
   });
 
-  return await client.send(command);
+  try {
+    const response = await sendCommand(command, options);
+    return (response.CORSRules ?? []).map((rule) => ({
+      allowedHeaders: rule.AllowedHeaders,
+      allowedMethods: (rule.AllowedMethods ?? []) as CORSMethod[],
+      allowedOrigins: rule.AllowedOrigins ?? [],
+      exposeHeaders: rule.ExposeHeaders,
+      maxAgeSeconds: rule.MaxAgeSeconds,
+    }));
+  } catch (error) {
+    if (isR2Error(error) && error.code === 'NoSuchCORSConfiguration') {
+      return [];
+    }
+    throw error;
+  }
 }
 
 /**
- * 设置存储桶 CORS 配置
+ * 设置存储桶 CORS 配置（替换全部规则，发送前先校验；规则为空时删除 CORS 配置）
  * @param bucketName 存储桶名称
  * @param rules CORS 规则数组
+ * @param options 可选配置（取消信号、超时）
+ * @throws Error 规则不合法时
  * @returns 设置结果
  */
-export async function putBucketCors(bucketName: string, rules: CORSRule[]) {
-  const client = getR2Client();
+export async function putBucketCors(
+  bucketName: string,
+  rules: CORSRule[],
+  options?: RequestOptions
+) {
+  validateCorsRules(rules);
+  if (rules.length === 0) {
+    return await deleteBucketCors(bucketName, options);
+  }
 
   const command = new PutBucketCorsCommand({
     Bucket: bucketName,
@@ -58,137 +185,614 @@ export async function putBucketCors(bucketName: string, rules: CORSRule[]) {
     },
   });
 
-  return await client.send(command);
+  return await sendCommand(command, options);
+}
+
+/**
+ * 删除存储桶 CORS 配置
+ * @param bucketName 存储桶名称
+ * @param options 可选配置（取消信号、超时）
+ * @returns 删除结果
+ */
+export async function deleteBucketCors(bucketName: string, options?: RequestOptions) {
+  const command = new DeleteBucketCorsCommand({
+    Bucket: bucketName,
+  });
+
+  return await sendCommand(command, options);
+}
+
+/**
+ * 匹配 CORS 规则：字符串表示匹配 allowedOrigins 中包含该来源的规则，也可传入判断函数
+ */
+export type CORSRuleMatcher = string | ((rule: CORSRule, index: number) => boolean);
+
+/**
+ * 将匹配条件转换为判断函数
+ * @param matcher 匹配条件
+ */
+function toCorsPredicate(matcher: CORSRuleMatcher) {
+  return typeof matcher === 'string'
+    ? (rule: CORSRule) => rule.allowedOrigins.includes(matcher)
+    : matcher;
+}
+
+/**
+ * 描述匹配条件（用于错误信息）
+ * @param matcher 匹配条件
+ */
+function describeMatcher(matcher: CORSRuleMatcher) {
+  return typeof matcher === 'string' ? `origin "${matcher}"` : 'the given predicate';
+}
+
+/**
+ * 判断两条 CORS 规则是否相同（忽略数组中的顺序）
+ * @param a CORS 规则
+ * @param b CORS 规则
+ */
+export function isSameCorsRule(a: CORSRule, b: CORSRule) {
+  const normalize = (values: string[] | undefined) => [...(values ?? [])].sort().join('\n');
+  return (
+    normalize(a.allowedOrigins) === normalize(b.allowedOrigins) &&
+    normalize(a.allowedMethods) === normalize(b.allowedMethods) &&
+    normalize(a.allowedHeaders) === normalize(b.allowedHeaders) &&
+    normalize(a.exposeHeaders) === normalize(b.exposeHeaders) &&
+    a.maxAgeSeconds === b.maxAgeSeconds
+  );
+}
+
+/**
+ * 添加一条 CORS 规则，保留已有规则（已存在相同规则时不做修改）
+ * @param bucketName 存储桶名称
+ * @param rule 要添加的规则
+ * @param options 可选配置（取消信号、超时）
+ * @throws Error 规则不合法时
+ * @returns 添加后的全部规则
+ */
+export async function addCorsRule(
+  bucketName: string,
+  rule: CORSRule,
+  options?: RequestOptions
+): Promise<CORSRule[]> {
+  validateCorsRules([rule]);
+  const requestOptions = { signal: createRequestSignal(options) };
+  const rules = await getBucketCors(bucketName, requestOptions);
+  if (rules.some((existing) => isSameCorsRule(existing, rule))) {
+    return rules;
+  }
+
+  const updated = [...rules, rule];
+  await putBucketCors(bucketName, updated, requestOptions);
+  return updated;
+}
+
+/**
+ * 替换匹配的 CORS 规则，其他规则保持不变
+ *
+ * 多条规则匹配时，新规则放在第一条匹配规则的位置，其余匹配的规则被移除。
+ * @param bucketName 存储桶名称
+ * @param matcher 要替换的规则：来源字符串或判断函数
+ * @param rule 新规则
+ * @param options 可选配置（取消信号、超时）
+ * @throws Error 没有匹配的规则或新规则不合法时
+ * @returns 替换后的全部规则
+ *
+ * @example
+ * ```typescript
+ * await replaceCorsRule('assets', 'https://app.example.com', {
+ *   allowedOrigins: ['https://app.example.com'],
+ *   allowedMethods: ['GET', 'HEAD', 'PUT'],
+ *   allowedHeaders: ['content-type'],
+ *   maxAgeSeconds: 3600,
+ * });
+ * ```
+ */
+export async function replaceCorsRule(
+  bucketName: string,
+  matcher: CORSRuleMatcher,
+  rule: CORSRule,
+  options?: RequestOptions
+): Promise<CORSRule[]> {
+  validateCorsRules([rule]);
+  const requestOptions = { signal: createRequestSignal(options) };
+  const rules = await getBucketCors(bucketName, requestOptions);
+  const matches = toCorsPredicate(matcher);
+  const first = rules.findIndex(matches);
+  if (first === -1) {
+    throw new Error(`No CORS rule of bucket ${bucketName} matches ${describeMatcher(matcher)}`);
+  }
+
+  const updated = rules.flatMap((existing, index) => {
+    if (index === first) {
+      return [rule];
+    }
+    return matches(existing, index) ? [] : [existing];
+  });
+  await putBucketCors(bucketName, updated, requestOptions);
+  return updated;
+}
+
+/**
+ * 移除匹配的 CORS 规则，其他规则保持不变（全部移除后删除 CORS 配置）
+ * @param bucketName 存储桶名称
+ * @param matcher 要移除的规则：来源字符串或判断函数
+ * @param options 可选配置（取消信号、超时）
+ * @returns 移除后剩余的规则（没有匹配的规则时不发起修改）
+ */
+export async function removeCorsRule(
+  bucketName: string,
+  matcher: CORSRuleMatcher,
+  options?: RequestOptions
+): Promise<CORSRule[]> {
+  const requestOptions = { signal: createRequestSignal(options) };
+  const rules = await getBucketCors(bucketName, requestOptions);
+  const matches = toCorsPredicate(matcher);
+  const updated = rules.filter((rule, index) => !matches(rule, index));
+  if (updated.length === rules.length) {
+    return rules;
+  }
+
+  await putBucketCors(bucketName, updated, requestOptions);
+  return updated;
 }
 
 /**
  * 生命周期规则接口
  */
 export interface LifecycleRule {
+  /** 规则 ID，同一存储桶内唯一（按 ID 修改或删除规则时必填） */
   id?: string;
   status: 'Enabled' | 'Disabled';
+  /** 省略时作用于存储桶内的所有对象；设置多个条件时对象须同时满足 */
   filter?: {
     prefix?: string;
+    /** @deprecated 使用 tags，设置时与 tags 合并 */
     tag?: {
       key: string;
       value: string;
     };
+    tags?: Array<{
+      key: string;
+      value: string;
+    }>;
+    /** 只作用于大于该字节数的对象 */
+    objectSizeGreaterThan?: number;
+    /** 只作用于小于该字节数的对象 */
+    objectSizeLessThan?: number;
   };
+  /** 对象在创建后指定天数或到达指定日期（UTC 零点）时被删除，days 与 date 二选一 */
   expiration?: {
     days?: number;
     date?: Date;
   };
+  /** 对象在创建后指定天数或到达指定日期时转换存储类型，days 与 date 二选一 */
   transitions?: Array<{
     days?: number;
     date?: Date;
-    storageClass: TransitionStorageClass;
+    storageClass: R2StorageClass;
   }>;
+  /** 分段上传在发起后指定天数仍未完成时自动中止 */
+  abortIncompleteMultipartUpload?: {
+    daysAfterInitiation: number;
+  };
+}
+
+const MAX_LIFECYCLE_RULES = 1000;
+
+/**
+ * 获取过滤条件中的全部标签（合并已废弃的 tag 字段）
+ * @param filter 过滤条件
+ */
+function getFilterTags(filter: LifecycleRule['filter']) {
+  return [...(filter?.tag ? [filter.tag] : []), ...(filter?.tags ?? [])];
+}
+
+/**
+ * 校验生命周期规则，在发送请求前发现互相矛盾的配置
+ * @param rules 生命周期规则数组
+ * @throws Error 列出所有不合法的规则
+ */
+export function validateLifecycleRules(rules: LifecycleRule[]): void {
+  const problems: string[] = [];
+  if (rules.length > MAX_LIFECYCLE_RULES) {
+    problems.push(`at most ${MAX_LIFECYCLE_RULES} rules are allowed, got ${rules.length}`);
+  }
+
+  const ids = new Set<string>();
+  rules.forEach((rule, index) => {
+    const name = rule.id ? `rule "${rule.id}"` : `rule #${index + 1}`;
+    const report = (message: string) => problems.push(`${name}: ${message}`);
+    const isDays = (value: number | undefined, min: number) =>
+      value === undefined || (Number.isInteger(value) && value >= min);
+    const isMidnight = (date: Date | undefined) =>
+      date === undefined || date.getTime() % 86_400_000 === 0;
+
+    if (rule.id !== undefined) {
+      if (ids.has(rule.id)) {
+        report('duplicate rule ID');
+      }
+      ids.add(rule.id);
+      if (rule.id.length === 0 || rule.id.length > 255) {
+        report('ID must be 1-255 characters');
+      }
+    }
+
+    if (!rule.expiration && !rule.transitions?.length && !rule.abortIncompleteMultipartUpload) {
+      report('must define expiration, transitions or abortIncompleteMultipartUpload');
+    }
+
+    const expiration = rule.expiration;
+    if (expiration) {
+      if ((expiration.days === undefined) === (expiration.date === undefined)) {
+        report('expiration must set exactly one of days or date');
+      }
+      if (!isDays(expiration.days, 1)) {
+        report('expiration days must be a positive integer');
+      }
+      if (!isMidnight(expiration.date)) {
+        report('expiration date must be midnight UTC');
+      }
+    }
+
+    const storageClasses = new Set<string>();
+    for (const transition of rule.transitions ?? []) {
+      if ((transition.days === undefined) === (transition.date === undefined)) {
+        report('each transition must set exactly one of days or date');
+      }
+      if (!isDays(transition.days, 0)) {
+        report('transition days must be a non-negative integer');
+      }
+      if (!isMidnight(transition.date)) {
+        report('transition date must be midnight UTC');
+      }
+      if (storageClasses.has(transition.storageClass)) {
+        report(`multiple transitions to ${transition.storageClass}`);
+      }
+      storageClasses.add(transition.storageClass);
+
+      // 对象须先转换存储类型再过期，否则转换不会生效
+      if (expiration?.days !== undefined && transition.days !== undefined) {
+        if (expiration.days <= transition.days) {
+          report(
+            `expiration (${expiration.days} days) must be later than transition to ${transition.storageClass} (${transition.days} days)`
+          );
+        }
+      }
+      if (expiration?.date && transition.date && expiration.date <= transition.date) {
+        report(`expiration date must be later than transition to ${transition.storageClass}`);
+      }
+    }
+
+    const filter = rule.filter;
+    const isSize = (value: number | undefined) =>
+      value === undefined || (Number.isInteger(value) && value >= 0);
+    if (!isSize(filter?.objectSizeGreaterThan) || !isSize(filter?.objectSizeLessThan)) {
+      report('object size filters must be non-negative integers');
+    }
+    if (
+      filter?.objectSizeGreaterThan !== undefined &&
+      filter.objectSizeLessThan !== undefined &&
+      filter.objectSizeGreaterThan >= filter.objectSizeLessThan
+    ) {
+      report('objectSizeGreaterThan must be less than objectSizeLessThan');
+    }
+    const tagKeys = new Set<string>();
+    const tags = getFilterTags(filter);
+    for (const tag of tags) {
+      if (tagKeys.has(tag.key)) {
+        report(`duplicate tag filter "${tag.key}"`);
+      }
+      tagKeys.add(tag.key);
+    }
+
+    const abort = rule.abortIncompleteMultipartUpload;
+    if (abort) {
+      if (!isDays(abort.daysAfterInitiation, 1)) {
+        report('abortIncompleteMultipartUpload.daysAfterInitiation must be a positive integer');
+      }
+      if (tags.length > 0) {
+        report('abortIncompleteMultipartUpload cannot be combined with a tag filter');
+      }
+    }
+  });
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid lifecycle configuration:\n  ${problems.join('\n  ')}`);
+  }
 }
 
 /**
  * 获取存储桶生命周期配置
  * @param bucketName 存储桶名称
- * @returns 生命周期配置
+ * @param options 可选配置（取消信号、超时）
+ * @throws NotFoundError 存储桶不存在时
+ * @returns 生命周期规则数组（可直接传回 putBucketLifecycleConfiguration），未配置时返回空数组
  */
-export async function getBucketLifecycleConfiguration(bucketName: string) {
-  const client = getR2Client();
-
+export async function getBucketLifecycleConfiguration(
+  bucketName: string,
+  options?: RequestOptions
+): Promise<LifecycleRule[]> {
   const command = new GetBucketLifecycleConfigurationCommand({
     Bucket: bucketName,
   });
 
-  return await client.send(command);
+  let response;
+  try {
+    response = await sendCommand(command, options);
+  } catch (error) {
+    if (isR2Error(error) && error.code === 'NoSuchLifecycleConfiguration') {
+      return [];
+    }
+    throw error;
+  }
+
+  return (response.Rules ?? []).map(fromLifecycleRuleOutput);
+}
+
+/**
+ * 将 SDK 返回的过滤条件转换为 LifecycleRule 的 filter（保留全部标签和大小条件）
+ * @param rule SDK 返回的规则
+ */
+function fromLifecycleFilter(rule: SdkLifecycleRule): LifecycleRule['filter'] {
+  const filter = rule.Filter;
+  const and = filter?.And;
+  const prefix = filter?.Prefix ?? and?.Prefix ?? rule.Prefix;
+  const tags = [...(filter?.Tag ? [filter.Tag] : []), ...(and?.Tags ?? [])]
+    .filter((tag) => tag.Key !== undefined)
+    .map((tag) => ({ key: tag.Key!, value: tag.Value ?? '' }));
+  const objectSizeGreaterThan = filter?.ObjectSizeGreaterThan ?? and?.ObjectSizeGreaterThan;
+  const objectSizeLessThan = filter?.ObjectSizeLessThan ?? and?.ObjectSizeLessThan;
+
+  if (
+    !prefix &&
+    tags.length === 0 &&
+    objectSizeGreaterThan === undefined &&
+    objectSizeLessThan === undefined
+  ) {
+    return undefined;
+  }
+  return {
+    prefix: prefix || undefined,
+    tags: tags.length > 0 ? tags : undefined,
+    objectSizeGreaterThan,
+    objectSizeLessThan,
+  };
+}
+
+/**
+ * 将过滤条件转换为 SDK 格式：只有一个条件时直接设置，多个条件时使用 And，
+ * 未设置时使用空前缀（作用于所有对象）
+ * @param filter 过滤条件
+ */
+function toLifecycleFilter(filter: LifecycleRule['filter']): LifecycleRuleFilter {
+  const prefix = filter?.prefix || undefined;
+  const tags = getFilterTags(filter).map((tag) => ({ Key: tag.key, Value: tag.value }));
+  const sizes = {
+    ObjectSizeGreaterThan: filter?.objectSizeGreaterThan,
+    ObjectSizeLessThan: filter?.objectSizeLessThan,
+  };
+  const conditions =
+    (prefix ? 1 : 0) +
+    tags.length +
+    (sizes.ObjectSizeGreaterThan !== undefined ? 1 : 0) +
+    (sizes.ObjectSizeLessThan !== undefined ? 1 : 0);
+
+  if (conditions > 1) {
+    return { And: { Prefix: prefix, Tags: tags.length > 0 ? tags : undefined, ...sizes } };
+  }
+  if (tags[0]) {
+    return { Tag: tags[0] };
+  }
+  if (sizes.ObjectSizeGreaterThan !== undefined || sizes.ObjectSizeLessThan !== undefined) {
+    return sizes;
+  }
+  return { Prefix: prefix ?? '' };
 }
 
 /**
- * 设置存储桶生命周期配置
+ * 将 SDK 返回的规则转换为 LifecycleRule
+ * @param rule SDK 返回的规则
+ */
+function fromLifecycleRuleOutput(rule: SdkLifecycleRule): LifecycleRule {
+  return {
+    id: rule.ID,
+    status: rule.Status === 'Enabled' ? 'Enabled' : 'Disabled',
+    filter: fromLifecycleFilter(rule),
+    expiration:
+      rule.Expiration?.Days !== undefined || rule.Expiration?.Date !== undefined
+        ? { days: rule.Expiration.Days, date: rule.Expiration.Date }
+        : undefined,
+    transitions: rule.Transitions?.length
+      ? rule.Transitions.map((transition) => ({
+          days: transition.Days,
+          date: transition.Date,
+          storageClass: transition.StorageClass as R2StorageClass,
+        }))
+      : undefined,
+    abortIncompleteMultipartUpload:
+      rule.AbortIncompleteMultipartUpload?.DaysAfterInitiation !== undefined
+        ? { daysAfterInitiation: rule.AbortIncompleteMultipartUpload.DaysAfterInitiation }
+        : undefined,
+  };
+}
+
+/**
+ * 将 LifecycleRule 转换为 SDK 格式
+ * @param rule 生命周期规则
+ */
+function toLifecycleRuleInput(rule: LifecycleRule): SdkLifecycleRule {
+  return {
+    ID: rule.id,
+    Status: rule.status,
+    Filter: toLifecycleFilter(rule.filter),
+    Expiration: rule.expiration
+      ? {
+          Days: rule.expiration.days,
+          Date: rule.expiration.date,
+        }
+      : undefined,
+    Transitions: rule.transitions?.map((transition) => ({
+      Days: transition.days,
+      Date: transition.date,
+      StorageClass: transition.storageClass as TransitionStorageClass,
+    })),
+    AbortIncompleteMultipartUpload: rule.abortIncompleteMultipartUpload
+      ? { DaysAfterInitiation: rule.abortIncompleteMultipartUpload.daysAfterInitiation }
+      : undefined,
+  };
+}
+
+/**
+ * 将生命周期规则规范化为读取接口返回的形式（空前缀视为无过滤条件、去掉空数组和未建模的字段），
+ * 用于比较本地规则与存储桶中的规则
+ * @param rules 生命周期规则数组
+ * @returns 规范化后的规则数组
+ */
+export function normalizeLifecycleRules(rules: LifecycleRule[]): LifecycleRule[] {
+  return rules.map((rule) => fromLifecycleRuleOutput(toLifecycleRuleInput(rule)));
+}
+
+/**
+ * 设置存储桶生命周期配置（替换全部规则，发送前先校验；规则为空时删除生命周期配置）
  * @param bucketName 存储桶名称
  * @param rules 生命周期规则数组
+ * @param options 可选配置（取消信号、超时）
+ * @throws Error 规则不合法时
  * @returns 设置结果
  */
 export async function putBucketLifecycleConfiguration(
   bucketName: string,
-  rules: LifecycleRule[]
+  rules: LifecycleRule[],
+  options?: RequestOptions
 ) {
-  const client = getR2Client();
+  validateLifecycleRules(rules);
+  if (rules.length === 0) {
+    return await deleteBucketLifecycle(bucketName, options);
+  }
 
   const command = new PutBucketLifecycleConfigurationCommand({
     Bucket: bucketName,
     LifecycleConfiguration: {
-      Rules: rules.map((rule) => ({
-        ID: rule.id,
-        Status: rule.status,
-        Filter: rule.filter
-          ? {
-              Prefix: rule.filter.prefix,
-              Tag: rule.filter.tag
-                ? {
-                    Key: rule.filter.tag.key,
-                    Value: rule.filter.tag.value,
-                  }
-                : undefined,
-            }
-          : undefined,
-        Expiration: rule.expiration
-          ? {
-              Days: rule.expiration.days,
-              Date: rule.expiration.date,
-            }
-          : undefined,
-        Transitions: rule.transitions?.map((transition) => ({
-          Days: transition.days,
-          Date: transition.date,
-          StorageClass: transition.storageClass,
-        })),
-      })),
+      Rules: rules.map(toLifecycleRuleInput),
     },
   });
 
-  return await client.send(command);
+  return await sendCommand(command, options);
+}
+
+/**
+ * 删除存储桶生命周期配置
+ * @param bucketName 存储桶名称
+ * @param options 可选配置（取消信号、超时）
+ * @returns 删除结果
+ */
+export async function deleteBucketLifecycle(bucketName: string, options?: RequestOptions) {
+  const command = new DeleteBucketLifecycleCommand({
+    Bucket: bucketName,
+  });
+
+  return await sendCommand(command, options);
+}
+
+/**
+ * 按 ID 添加或替换一条生命周期规则，其他规则保持不变
+ *
+ * 读取当前规则、替换同 ID 的规则（不存在时追加）后整体写回，校验不通过时不做修改。
+ * @param bucketName 存储桶名称
+ * @param rule 生命周期规则（必须设置 id）
+ * @param options 可选配置（取消信号、超时）
+ * @throws Error 规则未设置 id 或修改后的规则不合法时
+ * @returns 修改后的全部规则
+ *
+ * @example
+ * ```typescript
+ * await upsertLifecycleRule('uploads', {
+ *   id: 'abort-incomplete-uploads',
+ *   status: 'Enabled',
+ *   abortIncompleteMultipartUpload: { daysAfterInitiation: 7 },
+ * });
+ * ```
+ */
+export async function upsertLifecycleRule(
+  bucketName: string,
+  rule: LifecycleRule,
+  options?: RequestOptions
+): Promise<LifecycleRule[]> {
+  if (!rule.id) {
+    throw new Error('upsertLifecycleRule requires a rule with an id');
+  }
+  const requestOptions = { signal: createRequestSignal(options) };
+  const rules = await getBucketLifecycleConfiguration(bucketName, requestOptions);
+  const index = rules.findIndex((existing) => existing.id === rule.id);
+  const updated = index === -1 ? [...rules, rule] : rules.with(index, rule);
+
+  await putBucketLifecycleConfiguration(bucketName, updated, requestOptions);
+  return updated;
+}
+
+/**
+ * 按 ID 删除一条生命周期规则，其他规则保持不变（全部删除后删除生命周期配置）
+ * @param bucketName 存储桶名称
+ * @param id 规则 ID
+ * @param options 可选配置（取消信号、超时）
+ * @returns 删除后剩余的规则（没有该 ID 的规则时不发起修改）
+ */
+export async function removeLifecycleRule(
+  bucketName: string,
+  id: string,
+  options?: RequestOptions
+): Promise<LifecycleRule[]> {
+  const requestOptions = { signal: createRequestSignal(options) };
+  const rules = await getBucketLifecycleConfiguration(bucketName, requestOptions);
+  const updated = rules.filter((rule) => rule.id !== id);
+  if (updated.length === rules.length) {
+    return rules;
+  }
+
+  await putBucketLifecycleConfiguration(bucketName, updated, requestOptions);
+  return updated;
 }
 
 /**
  * 获取存储桶位置
  * @param bucketName 存储桶名称
+ * @param options 可选配置（取消信号、超时）
  * @returns 存储桶位置信息
  */
-export async function getBucketLocation(bucketName: string) {
-  const client = getR2Client();
-
+export async function getBucketLocation(bucketName: string, options?: RequestOptions) {
   const command = new GetBucketLocationCommand({
     Bucket: bucketName,
   });
 
-  return await client.send(command);
+  return await sendCommand(command, options);
 }
 
 /**
  * 获取存储桶加密配置
  * @param bucketName 存储桶名称
+ * @param options 可选配置（取消信号、超时）
  * @returns 加密配置
  */
-export async function getBucketEncryption(bucketName: string) {
-  const client = getR2Client();
-
+export async function getBucketEncryption(bucketName: string, options?: RequestOptions) {
   const command = new GetBucketEncryptionCommand({
     Bucket: bucketName,
   });
 
-  return await client.send(command);
+  return await sendCommand(command, options);
 }
 
 /**
  * 设置存储桶加密配置
  * @param bucketName 存储桶名称
  * @param sseAlgorithm 加密算法，默认为 AES256
+ * @param options 可选配置（取消信号、超时）
  * @returns 设置结果
  */
 export async function putBucketEncryption(
   bucketName: string,
-  sseAlgorithm: 'AES256' | 'aws:kms' = 'AES256'
+  sseAlgorithm: 'AES256' | 'aws:kms' = 'AES256',
+  options?: RequestOptions
 ) {
-  const client = getR2Client();
-
   const command = new PutBucketEncryptionCommand({
     Bucket: bucketName,
     ServerSideEncryptionConfiguration: {
@@ -202,5 +806,250 @@ export async function putBucketEncryption(
     },
   });
 
-  return await client.send(command);
+  return await sendCommand(command, options);
+}
+
+/**
+ * 可触发事件通知的对象操作
+ */
+export type NotificationEventType =
+  | 'PutObject'
+  | 'CopyObject'
+  | 'CompleteMultipartUpload'
+  | 'DeleteObject'
+  | 'LifecycleDeletion';
+
+/**
+ * 事件通知规则：对象键匹配前缀和后缀的指定操作会发送消息到 Cloudflare Queues 队列
+ */
+export interface NotificationRule {
+  /** 规则 ID，由 Cloudflare 生成 */
+  ruleId?: string;
+  /** 目标队列 ID */
+  queueId: string;
+  /** 目标队列名称（只读） */
+  queueName?: string;
+  events: NotificationEventType[];
+  /** 对象键前缀，如 "uploads/" */
+  prefix?: string;
+  /** 对象键后缀，如 ".jpg" */
+  suffix?: string;
+  description?: string;
+  /** 创建时间（只读） */
+  createdAt?: string;
+}
+
+/**
+ * 创建事件通知规则时的输入
+ */
+export type NotificationRuleInput = Omit<NotificationRule, 'ruleId' | 'queueName' | 'createdAt'>;
+
+/**
+ * Cloudflare API 返回的事件通知配置
+ */
+interface NotificationConfiguration {
+  bucketName?: string;
+  queues?: Array<{
+    queueId: string;
+    queueName?: string;
+    rules?: Array<{
+      ruleId?: string;
+      actions: NotificationEventType[];
+      prefix?: string;
+      suffix?: string;
+      description?: string;
+      createdAt?: string;
+    }>;
+  }>;
+}
+
+/**
+ * 获取事件通知配置接口的路径
+ * @param bucketName 存储桶名称
+ * @param queueId 队列 ID（省略时为整个配置）
+ */
+function notificationPath(bucketName: string, queueId?: string) {
+  const base = `/event_notifications/r2/${encodeURIComponent(bucketName)}/configuration`;
+  return queueId ? `${base}/queues/${encodeURIComponent(queueId)}` : base;
+}
+
+/**
+ * 检查事件通知规则
+ * @param rule 事件通知规则
+ */
+function validateNotificationRule(rule: NotificationRuleInput) {
+  if (!rule.queueId) {
+    throw new Error('Notification rule requires a queueId');
+  }
+  if (rule.events.length === 0) {
+    throw new Error(`Notification rule for queue ${rule.queueId} requires at least one event type`);
+  }
+}
+
+/**
+ * 列出存储桶的事件通知规则（通过 Cloudflare API，需要 R2Config.apiToken）
+ * @param bucketName 存储桶名称
+ * @param options 可选配置（取消信号、超时）
+ * @returns 所有队列的事件通知规则，未配置时返回空数组
+ */
+export async function listNotificationRules(
+  bucketName: string,
+  options?: RequestOptions
+): Promise<NotificationRule[]> {
+  const configuration = await cloudflareApiRequest<NotificationConfiguration | null>(
+    notificationPath(bucketName),
+    { ...options, context: { bucket: bucketName } }
+  );
+
+  return (configuration?.queues ?? []).flatMap((queue) =>
+    (queue.rules ?? []).map((rule) => ({
+      ruleId: rule.ruleId,
+      queueId: queue.queueId,
+      queueName: queue.queueName,
+      events: rule.actions,
+      prefix: rule.prefix || undefined,
+      suffix: rule.suffix || undefined,
+      description: rule.description || undefined,
+      createdAt: rule.createdAt,
+    }))
+  );
+}
+
+/**
+ * 为存储桶创建事件通知规则（通过 Cloudflare API，需要 R2Config.apiToken）
+ *
+ * 同一队列可以有多条规则；与已有规则的前缀、后缀和事件类型重叠时 Cloudflare 会拒绝创建。
+ * @param bucketName 存储桶名称
+ * @param rules 要创建的规则（可指向不同队列）
+ * @param options 可选配置（取消信号、超时）
+ */
+export async function createNotificationRules(
+  bucketName: string,
+  rules: NotificationRuleInput[],
+  options?: RequestOptions
+): Promise<void> {
+  rules.forEach(validateNotificationRule);
+
+  const byQueue = Map.groupBy(rules, (rule) => rule.queueId);
+  for (const [queueId, queueRules] of byQueue) {
+    await cloudflareApiRequest(notificationPath(bucketName, queueId), {
+      ...options,
+      method: 'PUT',
+      body: {
+        rules: queueRules.map((rule) => ({
+          actions: rule.events,
+          prefix: rule.prefix,
+          suffix: rule.suffix,
+          description: rule.description,
+        })),
+      },
+      context: { bucket: bucketName },
+    });
+  }
+}
+
+/**
+ * 删除存储桶指向某个队列的事件通知规则（通过 Cloudflare API，需要 R2Config.apiToken）
+ * @param bucketName 存储桶名称
+ * @param queueId 队列 ID
+ * @param ruleIds 要删除的规则 ID，省略时删除该队列的全部规则
+ * @param options 可选配置（取消信号、超时）
+ */
+export async function deleteNotificationRules(
+  bucketName: string,
+  queueId: string,
+  ruleIds?: string[],
+  options?: RequestOptions
+): Promise<void> {
+  await cloudflareApiRequest(notificationPath(bucketName, queueId), {
+    ...options,
+    method: 'DELETE',
+    body: ruleIds ? { ruleIds } : undefined,
+    context: { bucket: bucketName },
+  });
+}
+
+/**
+ * 判断已有规则是否与期望的规则一致（比较队列、事件类型、前缀和后缀，忽略描述）
+ * @param existing 已有规则
+ * @param desired 期望的规则
+ */
+function isSameNotificationRule(existing: NotificationRuleInput, desired: NotificationRuleInput) {
+  const events = (rule: NotificationRuleInput) => [...new Set(rule.events)].sort().join(',');
+  return (
+    existing.queueId === desired.queueId &&
+    events(existing) === events(desired) &&
+    (existing.prefix ?? '') === (desired.prefix ?? '') &&
+    (existing.suffix ?? '') === (desired.suffix ?? '')
+  );
+}
+
+/**
+ * ensureNotificationRules 的结果
+ */
+export interface EnsureNotificationRulesResult {
+  /** 新创建的规则 */
+  created: NotificationRuleInput[];
+  /** 被删除的规则（仅 prune 时） */
+  deleted: NotificationRule[];
+  /** 已存在且一致的规则 */
+  unchanged: NotificationRule[];
+  dryRun: boolean;
+}
+
+/**
+ * 声明式地确保存储桶存在指定的事件通知规则
+ *
+ * 与已有规则比较队列、事件类型、前缀和后缀，只创建缺失的规则；设置 prune 时删除不在列表中的规则。
+ * 多次执行结果相同，适合放在部署脚本中。
+ * @param bucketName 存储桶名称
+ * @param rules 期望存在的规则
+ * @param options 可选配置（prune 删除多余规则，默认 false；dryRun 只计算变更，默认 false；timeout 覆盖整个过程）
+ * @returns 创建、删除和保持不变的规则
+ *
+ * @example
+ * ```typescript
+ * await ensureNotificationRules('uploads', [
+ *   { queueId: 'queue-id', events: ['PutObject', 'CompleteMultipartUpload'], prefix: 'images/' },
+ *   { queueId: 'queue-id', events: ['DeleteObject'] },
+ * ], { prune: true });
+ * ```
+ */
+export async function ensureNotificationRules(
+  bucketName: string,
+  rules: NotificationRuleInput[],
+  options?: RequestOptions & {
+    prune?: boolean;
+    dryRun?: boolean;
+  }
+): Promise<EnsureNotificationRulesResult> {
+  rules.forEach(validateNotificationRule);
+  const requestOptions = { signal: createRequestSignal(options) };
+  const existing = await listNotificationRules(bucketName, requestOptions);
+
+  const result: EnsureNotificationRulesResult = {
+    created: rules.filter((rule) => !existing.some((item) => isSameNotificationRule(item, rule))),
+    deleted: options?.prune
+      ? existing.filter((item) => !rules.some((rule) => isSameNotificationRule(item, rule)))
+      : [],
+    unchanged: existing.filter((item) => rules.some((rule) => isSameNotificationRule(item, rule))),
+    dryRun: options?.dryRun ?? false,
+  };
+  if (result.dryRun) {
+    return result;
+  }
+
+  // 先删除再创建，避免与即将删除的规则重叠而被拒绝
+  const deletions = Map.groupBy(result.deleted, (rule) => rule.queueId);
+  for (const [queueId, queueRules] of deletions) {
+    const ruleIds = queueRules.map((rule) => rule.ruleId).filter((id): id is string => !!id);
+    if (ruleIds.length > 0) {
+      await deleteNotificationRules(bucketName, queueId, ruleIds, requestOptions);
+    }
+  }
+  if (result.created.length > 0) {
+    await createNotificationRules(bucketName, result.created, requestOptions);
+  }
+
+  return result;
 }
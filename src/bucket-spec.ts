@@ -0,0 +1,664 @@
+import { extname } from 'node:path';
+import {
+  createRequestSignal,
+  getR2Context,
+  type R2Jurisdiction,
+  type RequestOptions,
+} from './config.js';
+import {
+  createBucket,
+  deleteBucket,
+  getBucketInfo,
+  headBucket,
+  type R2LocationHint,
+} from './bucket.js';
+import {
+  getBucketCors,
+  getBucketEncryption,
+  getBucketLifecycleConfiguration,
+  isSameCorsRule,
+  normalizeLifecycleRules,
+  putBucketCors,
+  putBucketEncryption,
+  putBucketLifecycleConfiguration,
+  validateCorsRules,
+  validateLifecycleRules,
+  type CORSRule,
+  type LifecycleRule,
+} from './bucket-config.js';
+import {
+  addCustomDomain,
+  getManagedDomain,
+  listCustomDomains,
+  removeCustomDomain,
+  setManagedDomain,
+  updateCustomDomain,
+  type CustomDomain,
+  type MinTlsVersion,
+} from './domains.js';
+import { isR2Error } from './errors.js';
+import type { R2StorageClass } from './headers.js';
+
+/**
+ * 声明式配置中的自定义域名
+ */
+export interface BucketSpecDomain {
+  domain: string;
+  /** 域名所在的 Cloudflare 区域 ID（绑定新域名时必填） */
+  zoneId?: string;
+  /** 默认 true */
+  enabled?: boolean;
+  minTLS?: MinTlsVersion;
+}
+
+/**
+ * 存储桶的声明式配置
+ *
+ * 省略的字段不受管理（保持现状）；设置为空数组表示确保不存在任何规则或域名。
+ */
+export interface BucketSpec {
+  name: string;
+  /** 存储桶是否应存在，默认 true；设为 false 时删除存储桶（存储桶须为空） */
+  exists?: boolean;
+  /** 创建存储桶时使用的数据管辖区（只在创建时使用，不与已存在的存储桶比较） */
+  jurisdiction?: R2Jurisdiction;
+  /** 创建存储桶时使用的位置提示（只在创建时使用，已存在的存储桶不会比较或迁移） */
+  locationHint?: R2LocationHint;
+  /**
+   * 创建存储桶时设置的默认存储类型（需要 R2Config.apiToken；只在创建时使用，不与已存在的存储桶比较）
+   */
+  storageClass?: R2StorageClass;
+  cors?: CORSRule[];
+  lifecycle?: LifecycleRule[];
+  encryption?: 'AES256' | 'aws:kms';
+  /** 绑定的自定义域名（完整列表，未列出的域名会被解除绑定；需要 R2Config.apiToken） */
+  customDomains?: BucketSpecDomain[];
+  /** 是否启用 r2.dev 公开访问地址（需要 R2Config.apiToken） */
+  managedDomain?: boolean;
+}
+
+/**
+ * 声明式配置文件的内容
+ */
+export interface BucketConfigFile {
+  buckets: BucketSpec[];
+}
+
+/**
+ * 计划中的一项变更
+ */
+export type BucketChange =
+  | {
+      bucket: string;
+      resource: 'bucket';
+      action: 'create';
+      jurisdiction?: R2Jurisdiction;
+      locationHint?: R2LocationHint;
+      storageClass?: R2StorageClass;
+    }
+  | { bucket: string; resource: 'bucket'; action: 'delete' }
+  | {
+      bucket: string;
+      resource: 'cors';
+      action: 'create' | 'update' | 'delete';
+      before: CORSRule[];
+      after: CORSRule[];
+    }
+  | {
+      bucket: string;
+      resource: 'lifecycle';
+      action: 'create' | 'update' | 'delete';
+      before: LifecycleRule[];
+      after: LifecycleRule[];
+    }
+  | {
+      bucket: string;
+      resource: 'encryption';
+      action: 'update';
+      before?: string;
+      after: 'AES256' | 'aws:kms';
+    }
+  | {
+      bucket: string;
+      resource: 'customDomain';
+      action: 'create' | 'update' | 'delete';
+      domain: string;
+      before?: CustomDomain;
+      after?: BucketSpecDomain;
+    }
+  | {
+      bucket: string;
+      resource: 'managedDomain';
+      action: 'update';
+      before: boolean;
+      after: boolean;
+    };
+
+/**
+ * 执行计划的配置（timeout 覆盖整个过程）
+ */
+export interface ApplyBucketPlanOptions extends RequestOptions {
+  /** 每完成一项变更后回调 */
+  onChange?: (change: BucketChange) => void;
+}
+
+/**
+ * 执行计划的结果
+ */
+export interface ApplyBucketPlanResult {
+  applied: BucketChange[];
+  /** 失败的变更；同一存储桶后续的变更会被跳过，其他存储桶继续执行 */
+  failed: Array<{ change: BucketChange; error: unknown }>;
+  skipped: BucketChange[];
+}
+
+const SPEC_FIELDS = new Set([
+  'name',
+  'exists',
+  'jurisdiction',
+  'locationHint',
+  'storageClass',
+  'cors',
+  'lifecycle',
+  'encryption',
+  'customDomains',
+  'managedDomain',
+]);
+
+/**
+ * 将值转换为可稳定比较的 JSON（忽略 undefined、对象键排序、日期转为 ISO 字符串）
+ * @param value 任意值
+ */
+function stableJson(value: unknown): string {
+  return JSON.stringify(value, (_key, item) => {
+    if (item && typeof item === 'object' && !Array.isArray(item)) {
+      return Object.fromEntries(
+        Object.entries(item)
+          .filter(([, entry]) => entry !== undefined)
+          .sort(([a], [b]) => a.localeCompare(b))
+      );
+    }
+    return item;
+  });
+}
+
+/**
+ * 将值转换为纯数据：删除 undefined 字段，日期转为 ISO 字符串（用于写入 JSON / YAML）
+ * @param value 任意值
+ */
+function toPlainData<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+/**
+ * 判断两组 CORS 规则是否相同（忽略规则之间以及规则内数组的顺序）
+ * @param before 当前规则
+ * @param after 期望规则
+ */
+function isSameCorsRules(before: CORSRule[], after: CORSRule[]) {
+  const remaining = [...before];
+  return (
+    before.length === after.length &&
+    after.every((rule) => {
+      const index = remaining.findIndex((existing) => isSameCorsRule(existing, rule));
+      return index !== -1 && remaining.splice(index, 1).length > 0;
+    })
+  );
+}
+
+/**
+ * 生命周期规则按 ID 排序后比较（规则之间没有顺序）
+ * @param rules 生命周期规则
+ */
+function sortLifecycleRules(rules: LifecycleRule[]) {
+  return [...rules].sort((a, b) => (a.id ?? '').localeCompare(b.id ?? ''));
+}
+
+/**
+ * 根据前后状态确定规则列表的变更类型
+ * @param before 当前规则
+ * @param after 期望规则
+ */
+function listAction(before: unknown[], after: unknown[]) {
+  if (before.length === 0) {
+    return 'create' as const;
+  }
+  return after.length === 0 ? ('delete' as const) : ('update' as const);
+}
+
+/**
+ * 读取存储桶加密算法
+ * @param bucketName 存储桶名称
+ * @param options 请求配置
+ * @returns 加密算法，未配置时返回 undefined
+ */
+async function readEncryption(bucketName: string, options: RequestOptions) {
+  try {
+    const response = await getBucketEncryption(bucketName, options);
+    const rule = response.ServerSideEncryptionConfiguration?.Rules?.[0];
+    return rule?.ApplyServerSideEncryptionByDefault?.SSEAlgorithm;
+  } catch (error) {
+    if (isR2Error(error) && error.code === 'ServerSideEncryptionConfigurationNotFoundError') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * 计算单个存储桶的变更
+ * @param spec 声明式配置
+ * @param options 请求配置
+ * @returns 变更列表
+ */
+async function planBucket(spec: BucketSpec, options: RequestOptions): Promise<BucketChange[]> {
+  const bucket = spec.name;
+  const exists = await headBucket(bucket, options);
+
+  if (spec.exists === false) {
+    return exists ? [{ bucket, resource: 'bucket', action: 'delete' }] : [];
+  }
+
+  const changes: BucketChange[] = [];
+  if (!exists) {
+    changes.push({
+      bucket,
+      resource: 'bucket',
+      action: 'create',
+      jurisdiction: spec.jurisdiction,
+      locationHint: spec.locationHint,
+      storageClass: spec.storageClass,
+    });
+  }
+
+  if (spec.cors) {
+    const before = exists ? await getBucketCors(bucket, options) : [];
+    if (!isSameCorsRules(before, spec.cors)) {
+      changes.push({
+        bucket,
+        resource: 'cors',
+        action: listAction(before, spec.cors),
+        before,
+        after: spec.cors,
+      });
+    }
+  }
+
+  if (spec.lifecycle) {
+    const before = exists ? await getBucketLifecycleConfiguration(bucket, options) : [];
+    // 两边按相同方式规范化，避免空前缀等等价写法导致每次都产生变更
+    const unchanged =
+      stableJson(sortLifecycleRules(normalizeLifecycleRules(before))) ===
+      stableJson(sortLifecycleRules(normalizeLifecycleRules(spec.lifecycle)));
+    if (!unchanged) {
+      changes.push({
+        bucket,
+        resource: 'lifecycle',
+        action: listAction(before, spec.lifecycle),
+        before,
+        after: spec.lifecycle,
+      });
+    }
+  }
+
+  if (spec.encryption) {
+    const before = exists ? await readEncryption(bucket, options) : undefined;
+    if (before !== spec.encryption) {
+      changes.push({
+        bucket,
+        resource: 'encryption',
+        action: 'update',
+        before,
+        after: spec.encryption,
+      });
+    }
+  }
+
+  if (spec.customDomains) {
+    const current = exists ? await listCustomDomains(bucket, options) : [];
+    for (const desired of spec.customDomains) {
+      const existing = current.find((item) => item.domain === desired.domain);
+      if (!existing) {
+        if (!desired.zoneId) {
+          throw new Error(`Custom domain ${desired.domain} of bucket ${bucket} requires a zoneId`);
+        }
+        changes.push({
+          bucket,
+          resource: 'customDomain',
+          action: 'create',
+          domain: desired.domain,
+          after: desired,
+        });
+      } else if (
+        existing.enabled !== (desired.enabled ?? true) ||
+        (desired.minTLS !== undefined && existing.minTLS !== desired.minTLS)
+      ) {
+        changes.push({
+          bucket,
+          resource: 'customDomain',
+          action: 'update',
+          domain: desired.domain,
+          before: existing,
+          after: desired,
+        });
+      }
+    }
+    for (const existing of current) {
+      if (!spec.customDomains.some((item) => item.domain === existing.domain)) {
+        changes.push({
+          bucket,
+          resource: 'customDomain',
+          action: 'delete',
+          domain: existing.domain,
+          before: existing,
+        });
+      }
+    }
+  }
+
+  if (spec.managedDomain !== undefined) {
+    const before = exists ? (await getManagedDomain(bucket, options)).enabled : false;
+    if (before !== spec.managedDomain) {
+      changes.push({
+        bucket,
+        resource: 'managedDomain',
+        action: 'update',
+        before,
+        after: spec.managedDomain,
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * 计算声明式配置与存储桶当前状态的差异（不做任何修改）
+ *
+ * jurisdiction、locationHint、storageClass 只用于创建存储桶，
+ * 已存在的存储桶即使这些设置与配置不同，也不会出现在计划中。
+ * @param specs 存储桶的声明式配置
+ * @param options 可选配置（取消信号、超时）
+ * @throws Error 配置中的 CORS 或生命周期规则不合法、新域名缺少 zoneId 时
+ * @returns 变更计划，已一致时为空数组
+ */
+export async function planBucketConfig(
+  specs: BucketSpec[],
+  options?: RequestOptions
+): Promise<BucketChange[]> {
+  for (const spec of specs) {
+    if (spec.cors) {
+      validateCorsRules(spec.cors);
+    }
+    if (spec.lifecycle) {
+      validateLifecycleRules(spec.lifecycle);
+    }
+  }
+
+  const requestOptions = { signal: createRequestSignal(options) };
+  const changes: BucketChange[] = [];
+  for (const spec of specs) {
+    changes.push(...(await planBucket(spec, requestOptions)));
+  }
+  return changes;
+}
+
+/**
+ * 执行一项变更
+ * @param change 变更
+ * @param options 请求配置
+ */
+async function applyChange(change: BucketChange, options: RequestOptions) {
+  const { bucket } = change;
+  switch (change.resource) {
+    case 'bucket':
+      if (change.action === 'create') {
+        await createBucket(bucket, {
+          ...options,
+          jurisdiction: change.jurisdiction,
+          locationHint: change.locationHint,
+          storageClass: change.storageClass,
+        });
+      } else {
+        await deleteBucket(bucket, options);
+      }
+      return;
+    case 'cors':
+      await putBucketCors(bucket, change.after, options);
+      return;
+    case 'lifecycle':
+      await putBucketLifecycleConfiguration(bucket, change.after, options);
+      return;
+    case 'encryption':
+      await putBucketEncryption(bucket, change.after, options);
+      return;
+    case 'customDomain':
+      if (change.action === 'delete') {
+        await removeCustomDomain(bucket, change.domain, options);
+      } else if (change.action === 'create') {
+        await addCustomDomain(bucket, change.domain, {
+          ...options,
+          zoneId: change.after!.zoneId!,
+          enabled: change.after!.enabled,
+          minTLS: change.after!.minTLS,
+        });
+      } else {
+        await updateCustomDomain(
+          bucket,
+          change.domain,
+          { enabled: change.after!.enabled ?? true, minTLS: change.after!.minTLS },
+          options
+        );
+      }
+      return;
+    case 'managedDomain':
+      await setManagedDomain(bucket, change.after, options);
+      return;
+  }
+}
+
+/**
+ * 按顺序执行变更计划（通常为 planBucketConfig 的结果，确认后再执行）
+ *
+ * 某项变更失败时，同一存储桶后续的变更被跳过，其他存储桶继续执行。
+ * @param changes 变更计划
+ * @param options 可选配置
+ * @returns 执行结果
+ */
+export async function applyBucketPlan(
+  changes: BucketChange[],
+  options?: ApplyBucketPlanOptions
+): Promise<ApplyBucketPlanResult> {
+  const signal = createRequestSignal(options);
+  const result: ApplyBucketPlanResult = { applied: [], failed: [], skipped: [] };
+  const failedBuckets = new Set<string>();
+
+  for (const change of changes) {
+    if (failedBuckets.has(change.bucket)) {
+      result.skipped.push(change);
+      continue;
+    }
+    try {
+      await applyChange(change, { signal });
+      result.applied.push(change);
+      options?.onChange?.(change);
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      result.failed.push({ change, error });
+      failedBuckets.add(change.bucket);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 计算并执行声明式配置的变更（planBucketConfig + applyBucketPlan）
+ * @param specs 存储桶的声明式配置
+ * @param options 可选配置
+ * @returns 执行结果
+ *
+ * @example
+ * ```typescript
+ * const specs = await loadBucketConfig('./buckets.yaml');
+ * const result = await applyBucketConfig(specs);
+ * console.log(`${result.applied.length} change(s) applied`);
+ * ```
+ */
+export async function applyBucketConfig(
+  specs: BucketSpec[],
+  options?: ApplyBucketPlanOptions
+): Promise<ApplyBucketPlanResult> {
+  const signal = createRequestSignal(options);
+  const changes = await planBucketConfig(specs, { signal });
+  return await applyBucketPlan(changes, { ...options, signal, timeout: undefined });
+}
+
+/**
+ * 根据存储桶当前状态生成声明式配置
+ *
+ * 配置了 R2Config.apiToken 时同时导出位置、默认存储类型、自定义域名和 r2.dev 地址的状态。
+ * @param bucketName 存储桶名称
+ * @param options 可选配置（取消信号、超时）
+ * @throws NotFoundError 存储桶不存在时
+ * @returns 声明式配置
+ */
+export async function exportBucketConfig(
+  bucketName: string,
+  options?: RequestOptions
+): Promise<BucketSpec> {
+  const requestOptions = { signal: createRequestSignal(options) };
+  const { config } = getR2Context();
+
+  const spec: BucketSpec = {
+    name: bucketName,
+    jurisdiction:
+      config.jurisdiction && config.jurisdiction !== 'default' ? config.jurisdiction : undefined,
+    locationHint: undefined,
+    storageClass: undefined,
+    cors: await getBucketCors(bucketName, requestOptions),
+    lifecycle: await getBucketLifecycleConfiguration(bucketName, requestOptions),
+    encryption: (await readEncryption(bucketName, requestOptions)) as BucketSpec['encryption'],
+  };
+
+  if (config.apiToken) {
+    const info = await getBucketInfo(bucketName, requestOptions);
+    // 管辖区内的存储桶不能使用位置提示
+    spec.locationHint = spec.jurisdiction ? undefined : info.location;
+    spec.storageClass = info.storageClass;
+    const domains = await listCustomDomains(bucketName, requestOptions);
+    spec.customDomains = domains.map((domain) => ({
+      domain: domain.domain,
+      zoneId: domain.zoneId,
+      enabled: domain.enabled,
+      minTLS: domain.minTLS,
+    }));
+    spec.managedDomain = (await getManagedDomain(bucketName, requestOptions)).enabled;
+  }
+
+  return spec;
+}
+
+/**
+ * 将生命周期规则中的日期字符串转换为 Date
+ * @param rules 从文件读取的生命周期规则
+ */
+function reviveLifecycleDates(rules: LifecycleRule[]) {
+  const toDate = (value: Date | string | undefined) =>
+    value === undefined ? undefined : new Date(value);
+  return rules.map((rule) => ({
+    ...rule,
+    expiration: rule.expiration
+      ? { ...rule.expiration, date: toDate(rule.expiration.date) }
+      : undefined,
+    transitions: rule.transitions?.map((transition) => ({
+      ...transition,
+      date: toDate(transition.date),
+    })),
+  }));
+}
+
+/**
+ * 解析声明式配置文件的内容
+ * @param text 文件内容
+ * @param format 文件格式
+ * @throws Error 格式不正确或包含未知字段时
+ * @returns 存储桶的声明式配置（文件可以是 { buckets: [...] }、配置数组或单个配置）
+ */
+export function parseBucketConfig(text: string, format: 'json' | 'yaml'): BucketSpec[] {
+  const data = (format === 'yaml' ? Bun.YAML.parse(text) : JSON.parse(text)) as unknown;
+  const list =
+    data && typeof data === 'object' && 'buckets' in data
+      ? (data as BucketConfigFile).buckets
+      : Array.isArray(data)
+        ? data
+        : [data];
+
+  if (!Array.isArray(list)) {
+    throw new Error('Bucket config "buckets" must be an array');
+  }
+
+  return list.map((item, index) => {
+    if (!item || typeof item !== 'object' || typeof (item as BucketSpec).name !== 'string') {
+      throw new Error(`Bucket config #${index + 1} must be an object with a "name"`);
+    }
+    const unknown = Object.keys(item).filter((key) => !SPEC_FIELDS.has(key));
+    if (unknown.length > 0) {
+      throw new Error(
+        `Bucket config "${(item as BucketSpec).name}" has unknown field(s): ${unknown.join(', ')}`
+      );
+    }
+    const spec = item as BucketSpec;
+    return spec.lifecycle ? { ...spec, lifecycle: reviveLifecycleDates(spec.lifecycle) } : spec;
+  });
+}
+
+/**
+ * 根据扩展名判断配置文件格式（.yaml / .yml 为 YAML，其他为 JSON）
+ * @param filePath 文件路径
+ */
+function detectFormat(filePath: string): 'json' | 'yaml' {
+  const extension = extname(filePath).toLowerCase();
+  return extension === '.yaml' || extension === '.yml' ? 'yaml' : 'json';
+}
+
+/**
+ * 读取声明式配置文件（JSON 或 YAML）
+ * @param filePath 文件路径
+ * @throws Error 文件不存在或格式不正确时
+ * @returns 存储桶的声明式配置
+ */
+export async function loadBucketConfig(filePath: string): Promise<BucketSpec[]> {
+  const file = Bun.file(filePath);
+  if (!(await file.exists())) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+  return parseBucketConfig(await file.text(), detectFormat(filePath));
+}
+
+/**
+ * 将声明式配置序列化为文件内容
+ * @param specs 存储桶的声明式配置
+ * @param format 文件格式，默认 json
+ * @returns 文件内容
+ */
+export function stringifyBucketConfig(
+  specs: BucketSpec[],
+  format: 'json' | 'yaml' = 'json'
+): string {
+  const data: BucketConfigFile = toPlainData({ buckets: specs });
+  return format === 'yaml'
+    ? Bun.YAML.stringify(data, null, 2)
+    : JSON.stringify(data, null, 2) + '\n';
+}
+
+/**
+ * 将声明式配置写入文件，格式由扩展名决定
+ * @param filePath 文件路径（.yaml / .yml 为 YAML，其他为 JSON）
+ * @param specs 存储桶的声明式配置
+ */
+export async function saveBucketConfig(filePath: string, specs: BucketSpec[]): Promise<void> {
+  await Bun.write(filePath, stringifyBucketConfig(specs, detectFormat(filePath)));
+}
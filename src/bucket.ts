@@ -4,70 +4,383 @@ import {
   CreateBucketCommand,
   DeleteBucketCommand,
   HeadBucketCommand,
+  type Bucket,
+  type BucketLocationConstraint,
+  type CreateBucketCommandOutput,
   type ListBucketsCommandOutput,
 } from '@aws-sdk/client-s3';
-import { getR2Client } from './config.js';
+import {
+  createR2Client,
+  createRequestSignal,
+  getR2Context,
+  sendCommand,
+  type R2Jurisdiction,
+  type RequestOptions,
+} from './config.js';
+import { getBucketLocation } from './bucket-config.js';
+import { cloudflareApiRequest, cloudflareApiRequestAll } from './cloudflare-api.js';
+import { ConflictError, isConflict, isAborted, isNotFound, isR2Error, R2Error } from './errors.js';
+import type { EmptyOptions } from './file-management.js';
+import type { R2StorageClass } from './headers.js';
+
+/**
+ * 存储桶位置提示：创建时建议 R2 将存储桶放在靠近主要访问者的区域
+ *
+ * apac 为亚太，eeur / weur 为东欧 / 西欧，enam / wnam 为北美东部 / 西部，oc 为大洋洲。
+ */
+export type R2LocationHint = 'apac' | 'eeur' | 'enam' | 'weur' | 'wnam' | 'oc';
+
+/**
+ * 所有可用的位置提示
+ */
+export const LOCATION_HINTS = [
+  'apac',
+  'eeur',
+  'enam',
+  'weur',
+  'wnam',
+  'oc',
+] as const satisfies ReadonlyArray<R2LocationHint>;
+
+/**
+ * 存储桶的属性（来自 Cloudflare REST API）
+ */
+export interface BucketInfo {
+  name: string;
+  creationDate?: Date;
+  /** 存储桶实际所在的区域 */
+  location?: R2LocationHint;
+  jurisdiction: R2Jurisdiction;
+  /** 新对象的默认存储类型 */
+  storageClass?: R2StorageClass;
+}
+
+/**
+ * listBuckets 返回的存储桶（配置了 R2Config.apiToken 时包含位置、管辖区和默认存储类型）
+ */
+export interface BucketListEntry extends Bucket {
+  Location?: R2LocationHint;
+  Jurisdiction?: R2Jurisdiction;
+  StorageClass?: R2StorageClass;
+}
+
+/**
+ * 创建存储桶的配置
+ */
+export interface CreateBucketOptions extends RequestOptions {
+  /** 存储桶所在的数据管辖区，默认与当前客户端相同 */
+  jurisdiction?: R2Jurisdiction;
+  /** 位置提示（不能与 eu、fedramp 等管辖区同时使用） */
+  locationHint?: R2LocationHint;
+  /** 新对象的默认存储类型，默认 STANDARD（需要 R2Config.apiToken） */
+  storageClass?: R2StorageClass;
+  /** 存储桶已存在且设置一致时视为成功，默认 false（设置了 R2Config.endpoint 时核对 jurisdiction 需要 apiToken） */
+  ensure?: boolean;
+}
+
+/**
+ * 创建存储桶的结果（通过 S3 API 创建时保留 SDK 返回的 Location 和 $metadata）
+ */
+export interface CreateBucketResult extends Partial<CreateBucketCommandOutput> {
+  name: string;
+  /** ensure 模式下存储桶已存在时为 false */
+  created: boolean;
+}
+
+/**
+ * Cloudflare REST API 返回的存储桶
+ */
+interface ApiBucket {
+  name: string;
+  creation_date?: string;
+  location?: string;
+  jurisdiction?: R2Jurisdiction;
+  storage_class?: R2StorageClass;
+}
+
+/**
+ * 将 REST API 返回的存储桶转换为 BucketInfo
+ * @param bucket REST API 返回的存储桶
+ */
+function toBucketInfo(bucket: ApiBucket): BucketInfo {
+  return {
+    name: bucket.name,
+    creationDate: bucket.creation_date ? new Date(bucket.creation_date) : undefined,
+    location: bucket.location?.toLowerCase() as R2LocationHint | undefined,
+    jurisdiction: bucket.jurisdiction ?? 'default',
+    storageClass: bucket.storage_class,
+  };
+}
+
+/**
+ * 校验存储桶名称：3-63 个字符，只能包含小写字母、数字和连字符，且以字母或数字开头和结尾
+ * @param bucketName 存储桶名称
+ * @throws Error 名称不合法时，错误信息列出所有问题
+ */
+export function validateBucketName(bucketName: string): void {
+  const issues: string[] = [];
+  if (bucketName.length < 3 || bucketName.length > 63) {
+    issues.push(`must be 3-63 characters long (got ${bucketName.length})`);
+  }
+  const invalid = [...new Set(bucketName.replace(/[a-z0-9-]/g, ''))];
+  if (invalid.length > 0) {
+    issues.push(
+      `may only contain lowercase letters, digits and hyphens (found ${invalid
+        .map((char) => JSON.stringify(char))
+        .join(', ')})`
+    );
+  }
+  if (bucketName.startsWith('-') || bucketName.endsWith('-')) {
+    issues.push('must start and end with a letter or digit');
+  }
+  if (issues.length > 0) {
+    throw new Error(`Invalid bucket name "${bucketName}":\n  ${issues.join('\n  ')}`);
+  }
+}
 
 /**
  * 列出所有存储桶
+ *
+ * 配置了 R2Config.apiToken 时，会通过 REST API 补充每个存储桶的位置、管辖区和默认存储类型
+ * （REST API 请求失败时省略这些属性）。S3 API 与 REST API 都只列出当前客户端所在管辖区
+ * （R2Config.jurisdiction）的存储桶，其他管辖区的存储桶需要使用对应管辖区的客户端列出。
+ * @param options 可选配置（取消信号、超时）
  * @returns 存储桶列表
  */
-export async function listBuckets(): Promise<ListBucketsCommandOutput> {
-  const client = getR2Client();
-
+export async function listBuckets(
+  options?: RequestOptions
+): Promise<Omit<ListBucketsCommandOutput, 'Buckets'> & { Buckets?: BucketListEntry[] }> {
+  const { config } = getR2Context();
+  const signal = createRequestSignal(options);
   const command = new ListBucketsCommand({});
 
-  return await client.send(command);
+  const [result, details] = await Promise.all([
+    sendCommand(command, { signal }),
+    config.apiToken
+      ? cloudflareApiRequestAll<{ buckets?: ApiBucket[] }, ApiBucket>(
+          '/r2/buckets',
+          (page) => page.buckets,
+          { query: { per_page: 1000 }, signal }
+        ).catch((error: unknown) => {
+          if (isAborted(error) || !isR2Error(error)) {
+            throw error;
+          }
+          return undefined;
+        })
+      : undefined,
+  ]);
+  if (!details) {
+    return result;
+  }
+
+  const infos = new Map(details.map((bucket) => [bucket.name, toBucketInfo(bucket)]));
+  return {
+    ...result,
+    Buckets: result.Buckets?.map((bucket) => {
+      const info = infos.get(bucket.Name ?? '');
+      return info
+        ? {
+            ...bucket,
+            Location: info.location,
+            Jurisdiction: info.jurisdiction,
+            StorageClass: info.storageClass,
+          }
+        : bucket;
+    }),
+  };
+}
+
+/**
+ * 获取存储桶的位置、管辖区和默认存储类型（需要 R2Config.apiToken）
+ * @param bucketName 存储桶名称
+ * @param options 可选配置（jurisdiction 默认使用 R2Config.jurisdiction）
+ * @throws NotFoundError 存储桶不存在时
+ * @returns 存储桶属性
+ */
+export async function getBucketInfo(
+  bucketName: string,
+  options?: RequestOptions & {
+    jurisdiction?: R2Jurisdiction;
+  }
+): Promise<BucketInfo> {
+  const bucket = await cloudflareApiRequest<ApiBucket>(
+    `/r2/buckets/${encodeURIComponent(bucketName)}`,
+    { ...options, context: { bucket: bucketName } }
+  );
+  return toBucketInfo(bucket);
+}
+
+/**
+ * 检查已存在的存储桶与期望的设置是否一致
+ * @param bucketName 存储桶名称
+ * @param options 期望的设置
+ * @param signal 取消信号
+ * @returns 不一致的设置描述，一致时为空数组
+ */
+async function diffBucketSettings(
+  bucketName: string,
+  options: CreateBucketOptions,
+  signal: AbortSignal | undefined
+): Promise<string[]> {
+  const { config } = getR2Context();
+  const differences: string[] = [];
+  const compare = (name: string, actual: string | undefined, expected: string | undefined) => {
+    if (expected !== undefined && actual !== expected) {
+      differences.push(`${name} is ${actual ?? 'unknown'} (expected ${expected})`);
+    }
+  };
+
+  if (config.apiToken) {
+    const info = await getBucketInfo(bucketName, { jurisdiction: options.jurisdiction, signal });
+    compare('jurisdiction', info.jurisdiction, options.jurisdiction);
+    compare('location', info.location, options.locationHint);
+    compare('storage class', info.storageClass ?? 'STANDARD', options.storageClass);
+  } else {
+    // 没有 API 令牌时只能通过 S3 API 核对位置。管辖区由端点决定，存储桶已存在即一致；
+    // 自定义端点时无法确定端点对应的管辖区
+    if (options.jurisdiction && config.endpoint) {
+      differences.push('jurisdiction cannot be verified without apiToken');
+    }
+    if (options.locationHint) {
+      const { LocationConstraint } = await getBucketLocation(bucketName, { signal });
+      compare('location', LocationConstraint?.toLowerCase(), options.locationHint);
+    }
+  }
+  return differences;
 }
 
 /**
  * 创建存储桶
+ *
+ * 发送请求前会校验存储桶名称。设置 storageClass 时通过 Cloudflare REST API 创建（需要 apiToken），
+ * 否则通过 S3 API 创建。ensure 模式下存储桶已存在且管辖区、位置和默认存储类型与要求一致时视为成功，
+ * 设置了 R2Config.endpoint 且没有 apiToken 时无法核对管辖区，设置了 jurisdiction 会视为不一致。
  * @param bucketName 存储桶名称
+ * @param options 可选配置
+ * @throws Error 存储桶名称不合法、同时设置了位置提示和管辖区，或自定义端点无法使用指定的管辖区时
+ * @throws ConflictError 存储桶已存在（ensure 模式下为设置不一致）时
  * @returns 创建结果
+ *
+ * @example
+ * ```typescript
+ * await createBucket('eu-archive', { jurisdiction: 'eu', storageClass: 'STANDARD_IA', ensure: true });
+ * await createBucket('apac-assets', { locationHint: 'apac' });
+ * ```
  */
-export async function createBucket(bucketName: string) {
-  const client = getR2Client();
+export async function createBucket(
+  bucketName: string,
+  options?: CreateBucketOptions
+): Promise<CreateBucketResult> {
+  validateBucketName(bucketName);
+  const { config } = getR2Context();
+  const jurisdiction = options?.jurisdiction;
+  const locationHint = options?.locationHint;
+  const storageClass = options?.storageClass;
+  const effectiveJurisdiction = jurisdiction ?? config.jurisdiction ?? 'default';
+  if (locationHint && !(LOCATION_HINTS as readonly string[]).includes(locationHint)) {
+    throw new Error(
+      `Invalid location hint "${locationHint}" (expected one of ${LOCATION_HINTS.join(', ')})`
+    );
+  }
+  if (locationHint && effectiveJurisdiction !== 'default') {
+    throw new Error(
+      `Location hint "${locationHint}" cannot be used with the ${effectiveJurisdiction} jurisdiction`
+    );
+  }
+  // S3 API 的管辖区由端点决定，自定义端点时无法切换到其他管辖区
+  if (
+    jurisdiction &&
+    !storageClass &&
+    config.endpoint &&
+    jurisdiction !== (config.jurisdiction ?? 'default')
+  ) {
+    throw new Error(
+      `Cannot create a bucket in the ${jurisdiction} jurisdiction through the custom endpoint ${config.endpoint}`
+    );
+  }
 
-  const command = new CreateBucketCommand({
-    Bucket: bucketName,
-  });
+  const signal = createRequestSignal(options);
+
+  const create = async (): Promise<Partial<CreateBucketCommandOutput>> => {
+    if (storageClass) {
+      await cloudflareApiRequest<ApiBucket>('/r2/buckets', {
+        method: 'POST',
+        body: { name: bucketName, locationHint, storageClass },
+        jurisdiction,
+        context: { bucket: bucketName },
+        signal,
+      });
+      return {};
+    }
+
+    const command = new CreateBucketCommand({
+      Bucket: bucketName,
+      CreateBucketConfiguration: locationHint
+        ? { LocationConstraint: locationHint as BucketLocationConstraint }
+        : undefined,
+    });
 
-  return await client.send(command);
+    // 管辖区由端点决定：与当前客户端不同时，临时使用对应管辖区的客户端创建
+    if (jurisdiction && !config.endpoint && jurisdiction !== (config.jurisdiction ?? 'default')) {
+      const jurisdictionClient = createR2Client({ ...config, jurisdiction });
+      try {
+        return await sendCommand(command, { signal }, jurisdictionClient);
+      } finally {
+        jurisdictionClient.destroy();
+      }
+    }
+
+    return await sendCommand(command, { signal });
+  };
+
+  try {
+    return { ...(await create()), name: bucketName, created: true };
+  } catch (error) {
+    if (!options?.ensure || !isConflict(error)) {
+      throw error;
+    }
+    const differences = await diffBucketSettings(bucketName, options, signal);
+    if (differences.length > 0) {
+      throw new ConflictError(
+        `Bucket ${bucketName} already exists with different settings: ${differences.join(', ')}`,
+        { bucket: bucketName, code: error.code, statusCode: error.statusCode, cause: error }
+      );
+    }
+    return { name: bucketName, created: false };
+  }
 }
 
 /**
  * 删除存储桶
  * 注意：存储桶必须为空才能删除
  * @param bucketName 存储桶名称
+ * @param options 可选配置（取消信号、超时）
  * @returns 删除结果
  */
-export async function deleteBucket(bucketName: string) {
-  const client = getR2Client();
-
+export async function deleteBucket(bucketName: string, options?: RequestOptions) {
   const command = new DeleteBucketCommand({
     Bucket: bucketName,
   });
 
-  return await client.send(command);
+  return await sendCommand(command, options);
 }
 
 /**
  * 检查存储桶是否存在
  * @param bucketName 存储桶名称
+ * @param options 可选配置（取消信号、超时）
  * @returns 如果存储桶存在返回 true，否则返回 false
  */
-export async function headBucket(bucketName: string): Promise<boolean> {
-  const client = getR2Client();
-
+export async function headBucket(bucketName: string, options?: RequestOptions): Promise<boolean> {
   const command = new HeadBucketCommand({
     Bucket: bucketName,
   });
 
   try {
-    await client.send(command);
+    await sendCommand(command, options);
     return true;
-  } catch (error: any) {
-    if (error.name === 'NoSuchBucket' || error.$metadata?.httpStatusCode === 404) {
+  } catch (error) {
+    if (isNotFound(error)) {
       return false;
     }
     throw error;
@@ -76,44 +389,43 @@ export async function headBucket(bucketName: string): Promise<boolean> {
 
 /**
  * 清空并删除存储桶
- * 警告：此操作会永久删除存储桶中的所有对象
+ * 警告：此操作会永久删除存储桶中的所有对象和进行中的分段上传
  * @param bucketName 存储桶名称
- * @returns 删除结果
+ * @param options 可选配置（dryRun 时只清点不删除，也不删除存储桶）
+ * @throws R2Error 有对象删除失败时不会删除存储桶
+ * @returns 清空结果
  */
-export async function deleteBucketAndCleanup(bucketName: string) {
-  const { listObjectsV2 } = await import('./download.js');
-  const { deleteObject, deleteObjects } = await import('./file-management.js');
-
-  // 列出所有对象
-  const objects = await listObjectsV2(bucketName);
+export async function deleteBucketAndCleanup(bucketName: string, options?: EmptyOptions) {
+  const { emptyBucket } = await import('./file-management.js');
+  const signal = createRequestSignal(options);
 
-  // 删除所有对象
-  if (objects.Contents && objects.Contents.length > 0) {
-    const keys = objects.Contents.map((obj) => obj.Key).filter(
-      (key): key is string => key !== undefined
+  const result = await emptyBucket(bucketName, { ...options, signal, timeout: undefined });
+  if (result.dryRun) {
+    return result;
+  }
+  if (result.failures.length > 0) {
+    throw new R2Error(
+      `Failed to delete ${result.failures.length} item(s) from bucket ${bucketName}; bucket was not deleted`,
+      { bucket: bucketName }
     );
-
-    // 分批删除（每次最多1000个）
-    const batchSize = 1000;
-    for (let i = 0; i < keys.length; i += batchSize) {
-      const batch = keys.slice(i, i + batchSize);
-      await deleteObjects(bucketName, batch);
-    }
   }
 
   // 删除存储桶
-  return await deleteBucket(bucketName);
+  await deleteBucket(bucketName, { signal });
+  return result;
 }
 
 /**
  * 检查存储桶是否为空
  * @param bucketName 存储桶名称
+ * @param options 可选配置（取消信号、超时）
  * @returns 如果存储桶为空返回 true，否则返回 false
  */
-export async function isBucketEmpty(bucketName: string): Promise<boolean> {
+export async function isBucketEmpty(bucketName: string, options?: RequestOptions): Promise<boolean> {
   const { listObjectsV2 } = await import('./download.js');
 
   const objects = await listObjectsV2(bucketName, {
+    ...options,
     maxKeys: 1,
   });
 
@@ -0,0 +1,190 @@
+/**
+ * 支持的校验算法
+ */
+export type ChecksumAlgorithm = 'MD5' | 'SHA256' | 'CRC32' | 'CRC32C';
+
+/**
+ * 保存完整对象校验值的元数据键前缀，如 x-amz-meta-checksum-sha256
+ */
+export const CHECKSUM_METADATA_PREFIX = 'checksum-';
+
+/**
+ * 流式校验计算器：按顺序传入数据块，最后得到 Base64 编码的校验值
+ */
+export interface ChecksumHasher {
+  readonly algorithm: ChecksumAlgorithm;
+  update(chunk: Uint8Array): void;
+  /** 返回 Base64 编码的校验值（与 S3 的 x-amz-checksum-* / Content-MD5 格式一致） */
+  digest(): string;
+}
+
+/**
+ * 生成 CRC32C（Castagnoli）查找表
+ */
+function createCrc32cTable() {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0x82f63b78 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+}
+
+let crc32cTable: Uint32Array | undefined;
+
+/**
+ * 将 32 位整数按大端序编码为 Base64
+ * @param value 32 位无符号整数
+ */
+function uint32ToBase64(value: number): string {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value >>> 0);
+  return Buffer.from(bytes).toString('base64');
+}
+
+/**
+ * 创建流式校验计算器
+ * @param algorithm 校验算法
+ * @returns 校验计算器
+ */
+export function createChecksumHasher(algorithm: ChecksumAlgorithm): ChecksumHasher {
+  switch (algorithm) {
+    case 'MD5':
+    case 'SHA256': {
+      const hasher = new Bun.CryptoHasher(algorithm === 'MD5' ? 'md5' : 'sha256');
+      return {
+        algorithm,
+        update: (chunk) => void hasher.update(chunk),
+        digest: () => hasher.digest('base64'),
+      };
+    }
+    case 'CRC32': {
+      let crc = 0;
+      return {
+        algorithm,
+        update: (chunk) => void (crc = Bun.hash.crc32(chunk, crc)),
+        digest: () => uint32ToBase64(crc),
+      };
+    }
+    case 'CRC32C': {
+      const table = (crc32cTable ??= createCrc32cTable());
+      let crc = 0xffffffff;
+      return {
+        algorithm,
+        update: (chunk) => {
+          for (let i = 0; i < chunk.length; i++) {
+            crc = table[(crc ^ chunk[i]!) & 0xff]! ^ (crc >>> 8);
+          }
+        },
+        digest: () => uint32ToBase64(crc ^ 0xffffffff),
+      };
+    }
+    default:
+      throw new Error(`Unsupported checksum algorithm: ${algorithm}`);
+  }
+}
+
+/**
+ * 计算一段数据的校验值
+ * @param data 数据
+ * @param algorithm 校验算法
+ * @returns Base64 编码的校验值
+ */
+export function computeChecksum(data: Uint8Array, algorithm: ChecksumAlgorithm): string {
+  const hasher = createChecksumHasher(algorithm);
+  hasher.update(data);
+  return hasher.digest();
+}
+
+/**
+ * 以流式方式计算 Blob（包括 Bun.file）的校验值
+ * @param blob 数据源
+ * @param algorithm 校验算法
+ * @returns Base64 编码的校验值
+ */
+export async function computeBlobChecksum(
+  blob: Blob,
+  algorithm: ChecksumAlgorithm
+): Promise<string> {
+  const hasher = createChecksumHasher(algorithm);
+  for await (const chunk of blob.stream()) {
+    hasher.update(chunk);
+  }
+  return hasher.digest();
+}
+
+/**
+ * 获取保存完整对象校验值的元数据键
+ * @param algorithm 校验算法
+ * @returns 元数据键，如 "checksum-sha256"
+ */
+export function getChecksumMetadataKey(algorithm: ChecksumAlgorithm): string {
+  return CHECKSUM_METADATA_PREFIX + algorithm.toLowerCase();
+}
+
+/**
+ * 将校验值转换为对应 SDK 命令的输入字段
+ * @param algorithm 校验算法
+ * @param checksum Base64 编码的校验值
+ * @returns ContentMD5 或 ChecksumSHA256 / ChecksumCRC32 / ChecksumCRC32C 字段
+ */
+export function toChecksumInput(algorithm: ChecksumAlgorithm, checksum: string) {
+  switch (algorithm) {
+    case 'MD5':
+      return { ContentMD5: checksum };
+    case 'SHA256':
+      return { ChecksumSHA256: checksum };
+    case 'CRC32':
+      return { ChecksumCRC32: checksum };
+    case 'CRC32C':
+      return { ChecksumCRC32C: checksum };
+  }
+}
+
+/**
+ * 计算本地文件按指定分段大小分段上传后的 ETag（各分段 MD5 拼接后再取 MD5，加上 "-分段数"）
+ *
+ * 可用于核对已上传对象的内容：与 headObject 返回的 ETag 比较即可。
+ * @param filePath 本地文件路径
+ * @param partSize 上传时使用的分段大小
+ * @param options 可选配置（multipart 为 false 时返回整个文件的 MD5，即单次上传对象的 ETag）
+ * @returns 带引号的 ETag，如 "\"d41d8cd98f00b204e9800998ecf8427e-3\""
+ */
+export async function computeMultipartETag(
+  filePath: string,
+  partSize: number,
+  options?: {
+    multipart?: boolean;
+  }
+): Promise<string> {
+  const file = Bun.file(filePath);
+  if (!(await file.exists())) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  if (options?.multipart === false) {
+    const hasher = new Bun.CryptoHasher('md5');
+    for await (const chunk of file.stream()) {
+      hasher.update(chunk);
+    }
+    return `"${hasher.digest('hex')}"`;
+  }
+
+  const digests: Uint8Array[] = [];
+  for (let start = 0; start < file.size || digests.length === 0; start += partSize) {
+    const hasher = new Bun.CryptoHasher('md5');
+    for await (const chunk of file.slice(start, start + partSize).stream()) {
+      hasher.update(chunk);
+    }
+    digests.push(hasher.digest());
+  }
+
+  const combined = new Bun.CryptoHasher('md5');
+  for (const digest of digests) {
+    combined.update(digest);
+  }
+  return `"${combined.digest('hex')}-${digests.length}"`;
+}
@@ -0,0 +1,163 @@
+import {
+  getR2Context,
+  withRetry,
+  type R2Jurisdiction,
+  type RequestOptions,
+} from './config.js';
+import { createHttpError, R2Error, type R2ErrorContext } from './errors.js';
+
+/**
+ * Cloudflare REST API 的默认地址
+ */
+export const DEFAULT_CLOUDFLARE_API_BASE_URL = 'https://api.cloudflare.com/client/v4';
+
+/**
+ * Cloudflare REST API 返回的错误或提示信息
+ */
+export interface CloudflareApiMessage {
+  code: number;
+  message: string;
+}
+
+/**
+ * Cloudflare REST API 的响应结构
+ */
+export interface CloudflareApiResponse<T> {
+  success: boolean;
+  errors: CloudflareApiMessage[];
+  messages: CloudflareApiMessage[];
+  result: T;
+  /** 分页信息，列表接口返回下一页的 cursor */
+  result_info?: {
+    cursor?: string;
+    per_page?: number;
+  };
+}
+
+/**
+ * Cloudflare REST API 请求配置
+ */
+export interface CloudflareApiRequestOptions extends RequestOptions {
+  /** HTTP 方法，默认 GET */
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  /** 请求体，以 JSON 发送 */
+  body?: unknown;
+  /** 查询参数，值为 undefined 的参数会被忽略 */
+  query?: Record<string, string | number | boolean | undefined>;
+  /** 存储桶所在的数据管辖区（cf-r2-jurisdiction 请求头），默认使用 R2Config.jurisdiction */
+  jurisdiction?: R2Jurisdiction;
+  /** 出错时写入错误对象的存储桶和对象键 */
+  context?: R2ErrorContext;
+}
+
+/**
+ * 调用当前账户下的 Cloudflare REST API
+ *
+ * 使用 R2Config.apiToken 认证，请求地址为 {apiBaseUrl}/accounts/{accountId}{path}。
+ * 失败的响应按状态码转换为 R2Error 子类（如 NotFoundError、AccessDeniedError），
+ * code 为 Cloudflare 的错误码；可重试的错误按 R2Config.retry 重试。
+ * @param path 账户下的路径，如 "/r2/buckets/my-bucket/domains/custom"
+ * @param options 可选配置
+ * @throws Error 未配置 apiToken 时
+ * @returns 响应中的 result
+ */
+export async function cloudflareApiRequest<T>(
+  path: string,
+  options?: CloudflareApiRequestOptions
+): Promise<T> {
+  return (await requestCloudflareApi<T>(path, options)).result;
+}
+
+/**
+ * 按 cursor 逐页调用 Cloudflare REST API 的列表接口，返回所有页的条目
+ * @param path 账户下的路径，如 "/r2/buckets"
+ * @param getItems 从每页的 result 中取出条目
+ * @param options 可选配置（query 中的 cursor 由本函数设置）
+ * @returns 所有页的条目
+ */
+export async function cloudflareApiRequestAll<T, Item>(
+  path: string,
+  getItems: (result: T) => Item[] | undefined,
+  options?: CloudflareApiRequestOptions
+): Promise<Item[]> {
+  const items: Item[] = [];
+  let cursor: string | undefined;
+  do {
+    const response = await requestCloudflareApi<T>(path, {
+      ...options,
+      query: { ...options?.query, cursor },
+    });
+    items.push(...(getItems(response.result) ?? []));
+    cursor = response.result_info?.cursor || undefined;
+  } while (cursor);
+  return items;
+}
+
+/**
+ * 发送 Cloudflare REST API 请求并返回完整响应（含分页信息）
+ * @param path 账户下的路径
+ * @param options 可选配置
+ */
+async function requestCloudflareApi<T>(
+  path: string,
+  options?: CloudflareApiRequestOptions
+): Promise<CloudflareApiResponse<T>> {
+  const { config } = getR2Context();
+  if (!config.apiToken) {
+    throw new Error('Cloudflare API token not configured. Set apiToken in R2Config.');
+  }
+
+  const url = new URL(
+    `${config.apiBaseUrl ?? DEFAULT_CLOUDFLARE_API_BASE_URL}/accounts/${config.accountId}${path}`
+  );
+  for (const [name, value] of Object.entries(options?.query ?? {})) {
+    if (value !== undefined) {
+      url.searchParams.set(name, String(value));
+    }
+  }
+
+  const headers: Record<string, string> = { Authorization: `Bearer ${config.apiToken}` };
+  if (options?.body !== undefined) {
+    headers['Content-Type'] = 'application/json';
+  }
+  const jurisdiction = options?.jurisdiction ?? config.jurisdiction;
+  if (jurisdiction && jurisdiction !== 'default') {
+    headers['cf-r2-jurisdiction'] = jurisdiction;
+  }
+
+  const fetchImpl = config.fetch ?? fetch;
+
+  return await withRetry(async (signal) => {
+    const response = await fetchImpl(url, {
+      method: options?.method ?? 'GET',
+      headers,
+      body: options?.body !== undefined ? JSON.stringify(options.body) : undefined,
+      signal,
+    });
+
+    const payload = (await response.json().catch(() => null)) as CloudflareApiResponse<T> | null;
+    if (response.ok && payload?.success !== false) {
+      return payload ?? ({ result: undefined } as CloudflareApiResponse<T>);
+    }
+
+    const errors = payload?.errors ?? [];
+    const message =
+      errors.map((error) => `${error.message} (${error.code})`).join('; ') ||
+      `Cloudflare API request failed (${response.status})`;
+    const retryAfter = Number(response.headers.get('retry-after') ?? undefined);
+    const errorOptions = {
+      code: errors[0] ? String(errors[0].code) : undefined,
+      requestId: response.headers.get('cf-ray') ?? undefined,
+      bucket: options?.context?.bucket,
+      key: options?.context?.key,
+      cause: payload ?? undefined,
+      retryAfter: Number.isFinite(retryAfter) ? retryAfter : undefined,
+    };
+
+    // 少数接口以 200 返回 success: false
+    if (response.ok) {
+      throw new R2Error(message, { ...errorOptions, statusCode: response.status });
+    }
+    throw createHttpError(response.status, message, errorOptions);
+  }, options);
+}
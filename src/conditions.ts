@@ -0,0 +1,45 @@
+import type { PutObjectCommand } from '@aws-sdk/client-s3';
+
+/**
+ * 条件请求配置
+ */
+export interface ObjectConditions {
+  /** 仅当对象 ETag 匹配时执行 */
+  ifMatch?: string;
+  /** 仅当对象 ETag 不匹配时执行；上传时使用 "*" 表示仅在对象不存在时创建 */
+  ifNoneMatch?: string;
+  /** 仅当对象在该时间之后被修改时执行 */
+  ifModifiedSince?: Date;
+  /** 仅当对象在该时间之后未被修改时执行 */
+  ifUnmodifiedSince?: Date;
+}
+
+/**
+ * 为上传命令追加 SDK 输入中没有对应字段的条件请求头
+ * （PutObject 的 If-Modified-Since / If-Unmodified-Since）
+ * @param command 上传命令
+ * @param conditions 条件请求配置
+ */
+export function addPutConditionHeaders(command: PutObjectCommand, conditions: ObjectConditions) {
+  const headers: Record<string, string> = {};
+  if (conditions.ifModifiedSince) {
+    headers['if-modified-since'] = conditions.ifModifiedSince.toUTCString();
+  }
+  if (conditions.ifUnmodifiedSince) {
+    headers['if-unmodified-since'] = conditions.ifUnmodifiedSince.toUTCString();
+  }
+  if (Object.keys(headers).length === 0) {
+    return;
+  }
+
+  command.middlewareStack.add(
+    (next) => async (args) => {
+      const request = args.request as { headers?: Record<string, string> };
+      if (request.headers) {
+        Object.assign(request.headers, headers);
+      }
+      return next(args);
+    },
+    { step: 'build', name: 'r2PutConditionHeaders' }
+  );
+}
@@ -1,4 +1,25 @@
-import { S3Client } from '@aws-sdk/client-s3';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import {
+  S3Client,
+  type $Command,
+  type S3ClientResolvedConfig,
+  type ServiceInputTypes,
+  type ServiceOutputTypes,
+} from '@aws-sdk/client-s3';
+import {
+  AbortedError,
+  TimeoutError,
+  isNetworkError,
+  isR2Error,
+  isRateLimited,
+  isServerError,
+  toR2Error,
+} from './errors.js';
+
+/**
+ * R2 数据管辖区：default 为默认区域，eu 为欧盟，fedramp 为 FedRAMP
+ */
+export type R2Jurisdiction = 'default' | 'eu' | 'fedramp';
 
 /**
  * R2 客户端配置接口
@@ -8,19 +29,70 @@ export interface R2Config {
   accessKeyId: string;
   secretAccessKey: string;
   region?: string;
+  /** 数据管辖区，决定使用的 S3 端点，默认为 default */
+  jurisdiction?: R2Jurisdiction;
+  /** 自定义端点，设置后忽略 jurisdiction（如本地的 S3 兼容服务） */
+  endpoint?: string;
+  /** 重试策略，默认最多尝试 3 次 */
+  retry?: RetryPolicy;
+  /** Cloudflare API 令牌（需要 R2 编辑权限），用于自定义域名等只能通过 Cloudflare REST API 完成的操作 */
+  apiToken?: string;
+  /** Cloudflare REST API 地址，默认 https://api.cloudflare.com/client/v4 */
+  apiBaseUrl?: string;
+  /** 调用 Cloudflare REST API 使用的 fetch，默认为全局 fetch（可替换为本地桩以便测试） */
+  fetch?: (input: string | URL | Request, init?: RequestInit) => Promise<Response>;
+}
+
+/**
+ * 重试策略：对可重试的错误以带随机抖动的指数退避重试
+ */
+export interface RetryPolicy {
+  /** 最大尝试次数（包含首次请求），默认 3，设为 1 则不重试 */
+  maxAttempts?: number;
+  /** 退避基准时间（毫秒），默认 100 */
+  baseDelayMs?: number;
+  /** 单次退避的最长时间（毫秒），默认 20000 */
+  maxDelayMs?: number;
+  /** 判断错误是否可重试，默认重试 429、5xx 和网络错误 */
+  isRetryable?: (error: unknown, attempt: number) => boolean;
+}
+
+/**
+ * 单次调用的请求配置
+ */
+export interface RequestOptions {
+  /** 取消信号，触发后操作以 AbortedError 结束 */
+  signal?: AbortSignal;
+  /** 超时时间（毫秒），包含重试在内的整个操作超时后以 TimeoutError 结束 */
+  timeout?: number;
+}
+
+/**
+ * 获取 R2 S3 API 端点
+ * @param config R2 配置对象
+ * @returns 端点 URL
+ */
+export function getR2Endpoint(config: Pick<R2Config, 'accountId' | 'jurisdiction' | 'endpoint'>): string {
+  if (config.endpoint) {
+    return config.endpoint;
+  }
+  const jurisdiction = config.jurisdiction ?? 'default';
+  const subdomain = jurisdiction === 'default' ? '' : `.${jurisdiction}`;
+  return `https://${config.accountId}${subdomain}.r2.cloudflarestorage.com`;
 }
 
 /**
  * 创建 R2 S3 客户端实例
+ * 客户端抛出的错误会被转换为 R2Error 子类（见 errors.ts）
  * @param config R2 配置对象
  * @returns S3Client 实例
  */
 export function createR2Client(config: R2Config): S3Client {
-  const { accountId, accessKeyId, secretAccessKey, region = 'auto' } = config;
+  const { accessKeyId, secretAccessKey, region = 'auto' } = config;
 
-  return new S3Client({
+  const client = new S3Client({
     region,
-    endpoint: `https://${accountId}.r2.cloudflarestorage.com`,
+    endpoint: getR2Endpoint(config),
     credentials: {
       accessKeyId,
       secretAccessKey,
@@ -28,30 +100,225 @@ export function createR2Client(config: R2Config): S3Client {
     // 关键配置：强制使用路径风格而不是虚拟主机风格
     // R2 需要这个配置才能正确工作
     forcePathStyle: true,
+    // 仅在操作要求时计算校验和，避免 SDK 默认为预签名 URL 附加空请求体的 CRC32 校验参数
+    requestChecksumCalculation: 'WHEN_REQUIRED',
+    responseChecksumValidation: 'WHEN_REQUIRED',
+    // 重试由 sendCommand 按 R2Config.retry 处理
+    maxAttempts: 1,
   });
+
+  // 将所有命令抛出的 SDK 错误统一转换为 R2Error 子类
+  client.middlewareStack.add(
+    (next) => async (args) => {
+      try {
+        return await next(args);
+      } catch (error) {
+        const input = args.input as { Bucket?: string; Key?: string };
+        throw toR2Error(error, { bucket: input.Bucket, key: input.Key });
+      }
+    },
+    { step: 'initialize', priority: 'high', name: 'r2ErrorMiddleware' }
+  );
+
+  return client;
+}
+
+/**
+ * R2 上下文：客户端实例及其配置
+ */
+export interface R2Context {
+  client: S3Client;
+  config: R2Config;
 }
 
 /**
- * 默认 R2 客户端单例
+ * 当前异步调用链上的 R2 上下文（由 R2 实例或 runWithR2Context 设置）
  */
-let defaultR2Client: S3Client | null = null;
+const contextStorage = new AsyncLocalStorage<R2Context>();
+
+/**
+ * 默认 R2 上下文单例
+ */
+let defaultR2Context: R2Context | null = null;
 
 /**
  * 初始化默认 R2 客户端
  * @param config R2 配置对象
  */
 export function initR2Client(config: R2Config): void {
-  defaultR2Client = createR2Client(config);
+  defaultR2Context = { client: createR2Client(config), config };
+}
+
+/**
+ * 在指定的 R2 上下文中执行函数
+ * 函数内（包括其中的异步调用）的所有模块级操作都使用该上下文的客户端
+ * @param context R2 上下文
+ * @param fn 要执行的函数
+ * @returns 函数返回值
+ */
+export function runWithR2Context<T>(context: R2Context, fn: () => T): T {
+  return contextStorage.run(context, fn);
+}
+
+/**
+ * 获取当前 R2 上下文：优先使用当前调用链上的上下文，否则使用默认上下文
+ * @throws 如果未初始化客户端会抛出错误
+ * @returns R2 上下文
+ */
+export function getR2Context(): R2Context {
+  const context = contextStorage.getStore() ?? defaultR2Context;
+  if (!context) {
+    throw new Error('R2 client not initialized. Call initR2Client() first.');
+  }
+  return context;
 }
 
 /**
- * 获取默认 R2 客户端实例
+ * 获取当前 R2 客户端实例（见 getR2Context）
  * @throws 如果未初始化客户端会抛出错误
  * @returns S3Client 实例
  */
 export function getR2Client(): S3Client {
-  if (!defaultR2Client) {
-    throw new Error('R2 client not initialized. Call initR2Client() first.');
+  return getR2Context().client;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 100;
+const DEFAULT_MAX_DELAY_MS = 20000;
+
+/**
+ * 状态码不是 429 / 5xx 但属于临时故障的错误码（RequestTimeout 以 400 返回）
+ */
+const RETRYABLE_ERROR_CODES = new Set(['RequestTimeout']);
+
+/**
+ * 默认的可重试错误：请求过于频繁、服务端错误、网络错误和请求超时（RequestTimeout）
+ * @param error 任意错误
+ * @returns 是否可重试
+ */
+export function isRetryableError(error: unknown): boolean {
+  return (
+    isRateLimited(error) ||
+    isServerError(error) ||
+    isNetworkError(error) ||
+    (isR2Error(error) && error.code !== undefined && RETRYABLE_ERROR_CODES.has(error.code))
+  );
+}
+
+/**
+ * 合并调用方的取消信号与超时，生成单个 AbortSignal
+ * 组合操作（如分段上传）应在入口处调用一次，再将结果作为 signal 传给每个子操作，使超时覆盖整个操作
+ * @param options 请求配置
+ * @returns 合并后的信号，未设置时返回 undefined
+ */
+export function createRequestSignal(options?: RequestOptions): AbortSignal | undefined {
+  const signals: AbortSignal[] = [];
+  if (options?.signal) {
+    signals.push(options.signal);
+  }
+  if (options?.timeout !== undefined) {
+    signals.push(AbortSignal.timeout(options.timeout));
+  }
+  if (signals.length <= 1) {
+    return signals[0];
   }
-  return defaultR2Client;
+  return AbortSignal.any(signals);
+}
+
+/**
+ * 若信号已触发，抛出对应的 AbortedError 或 TimeoutError
+ * @param signal 取消信号
+ * @param cause 原始错误（可选）
+ */
+export function throwIfAborted(signal: AbortSignal | undefined, cause?: unknown): void {
+  if (!signal?.aborted) {
+    return;
+  }
+  const reason = signal.reason as { name?: string } | undefined;
+  if (reason?.name === 'TimeoutError') {
+    throw new TimeoutError('R2 operation timed out', { cause: cause ?? reason });
+  }
+  throw new AbortedError('R2 operation was aborted', { cause: cause ?? reason });
+}
+
+/**
+ * 可等待并可取消的延时
+ * @param ms 毫秒
+ * @param signal 取消信号
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * 按当前上下文的重试策略执行操作
+ *
+ * 按 R2Config.retry 对可重试的错误进行带抖动的指数退避重试（RateLimitedError 会遵循 Retry-After），
+ * 并应用单次调用的取消信号和超时。
+ * @param operation 要执行的操作，接收合并后的取消信号
+ * @param options 请求配置
+ * @throws AbortedError 操作被取消时
+ * @throws TimeoutError 操作超时时
+ * @returns 操作结果
+ */
+export async function withRetry<T>(
+  operation: (signal: AbortSignal | undefined) => Promise<T>,
+  options?: RequestOptions
+): Promise<T> {
+  const policy = getR2Context().config.retry;
+  const maxAttempts = Math.max(1, policy?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+  const baseDelay = policy?.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const maxDelay = policy?.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  const isRetryable = policy?.isRetryable ?? isRetryableError;
+  const signal = createRequestSignal(options);
+
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(signal);
+    try {
+      return await operation(signal);
+    } catch (error) {
+      throwIfAborted(signal, error);
+      if (attempt >= maxAttempts || !isRetryable(error, attempt)) {
+        throw error;
+      }
+
+      // 全抖动指数退避：在 [0, min(maxDelay, base * 2^(attempt-1))) 中随机等待
+      let delay = Math.random() * Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+      if (isRateLimited(error) && error.retryAfter !== undefined) {
+        delay = Math.max(delay, Math.min(maxDelay, error.retryAfter * 1000));
+      }
+      await sleep(delay, signal).catch((reason) => throwIfAborted(signal, reason));
+    }
+  }
+}
+
+/**
+ * 使用当前上下文的客户端发送命令（重试、取消和超时见 withRetry）
+ * @param command SDK 命令
+ * @param options 请求配置
+ * @param client 可选，指定发送命令的客户端（默认使用当前上下文的客户端）
+ * @throws AbortedError 操作被取消时
+ * @throws TimeoutError 操作超时时
+ * @returns 命令输出
+ */
+export async function sendCommand<
+  Input extends ServiceInputTypes,
+  Output extends ServiceOutputTypes,
+>(
+  command: $Command<Input, Output, S3ClientResolvedConfig, ServiceInputTypes, ServiceOutputTypes>,
+  options?: RequestOptions,
+  client?: S3Client
+): Promise<Output> {
+  const target = client ?? getR2Context().client;
+  return await withRetry((signal) => target.send(command, { abortSignal: signal }), options);
 }
@@ -0,0 +1,250 @@
+import { type RequestOptions } from './config.js';
+import { cloudflareApiRequest } from './cloudflare-api.js';
+
+/**
+ * 自定义域名的所有权验证状态
+ */
+export type DomainOwnershipStatus =
+  | 'pending'
+  | 'active'
+  | 'deactivated'
+  | 'blocked'
+  | 'error'
+  | 'unknown';
+
+/**
+ * 自定义域名的证书状态
+ */
+export type DomainSslStatus =
+  | 'initializing'
+  | 'pending'
+  | 'active'
+  | 'deactivated'
+  | 'error'
+  | 'unknown';
+
+/**
+ * 自定义域名允许的最低 TLS 版本
+ */
+export type MinTlsVersion = '1.0' | '1.1' | '1.2' | '1.3';
+
+/**
+ * 自定义域名的设置
+ */
+export interface CustomDomainSettings {
+  domain: string;
+  /** 是否允许通过该域名公开访问存储桶 */
+  enabled: boolean;
+  minTLS?: MinTlsVersion;
+  /** 域名所在的 Cloudflare 区域 ID */
+  zoneId?: string;
+  /** 允许的 TLS 加密套件，未设置时使用 Cloudflare 的默认配置 */
+  ciphers?: string[];
+}
+
+/**
+ * 存储桶绑定的自定义域名
+ */
+export interface CustomDomain extends CustomDomainSettings {
+  /** 域名所在的 Cloudflare 区域名称 */
+  zoneName?: string;
+  status: {
+    ownership: DomainOwnershipStatus;
+    ssl: DomainSslStatus;
+  };
+}
+
+/**
+ * 存储桶的 r2.dev 公开访问地址（由 Cloudflare 管理的域名）
+ */
+export interface ManagedDomain {
+  bucketId: string;
+  /** 如 "pub-xxxx.r2.dev" */
+  domain: string;
+  enabled: boolean;
+}
+
+/**
+ * 获取自定义域名相关接口的路径
+ * @param bucketName 存储桶名称
+ * @param domain 域名（省略时为域名列表）
+ */
+function customDomainPath(bucketName: string, domain?: string) {
+  const base = `/r2/buckets/${encodeURIComponent(bucketName)}/domains/custom`;
+  return domain ? `${base}/${encodeURIComponent(domain)}` : base;
+}
+
+/**
+ * 列出存储桶绑定的自定义域名（需要 R2Config.apiToken）
+ * @param bucketName 存储桶名称
+ * @param options 可选配置（取消信号、超时）
+ * @returns 自定义域名列表，包含启用状态和验证状态
+ */
+export async function listCustomDomains(
+  bucketName: string,
+  options?: RequestOptions
+): Promise<CustomDomain[]> {
+  const result = await cloudflareApiRequest<{ domains?: CustomDomain[] }>(
+    customDomainPath(bucketName),
+    { ...options, context: { bucket: bucketName } }
+  );
+  return result?.domains ?? [];
+}
+
+/**
+ * 获取存储桶的某个自定义域名（可用于轮询域名验证和证书签发的进度）
+ * @param bucketName 存储桶名称
+ * @param domain 域名，如 "assets.example.com"
+ * @param options 可选配置（取消信号、超时）
+ * @throws NotFoundError 存储桶未绑定该域名时
+ * @returns 自定义域名，包含启用状态和验证状态
+ */
+export async function getCustomDomain(
+  bucketName: string,
+  domain: string,
+  options?: RequestOptions
+): Promise<CustomDomain> {
+  return await cloudflareApiRequest<CustomDomain>(customDomainPath(bucketName, domain), {
+    ...options,
+    context: { bucket: bucketName },
+  });
+}
+
+/**
+ * 为存储桶绑定自定义域名（域名需托管在同一账户的 Cloudflare 区域中）
+ *
+ * 绑定后 Cloudflare 会自动创建 DNS 记录并签发证书，可通过 getCustomDomain 查看进度。
+ * @param bucketName 存储桶名称
+ * @param domain 域名，如 "assets.example.com"
+ * @param options 区域 ID 和可选配置（enabled 默认 true）
+ * @throws ConflictError 域名已被绑定时
+ * @returns 域名设置
+ */
+export async function addCustomDomain(
+  bucketName: string,
+  domain: string,
+  options: RequestOptions & {
+    zoneId: string;
+    enabled?: boolean;
+    minTLS?: MinTlsVersion;
+    ciphers?: string[];
+  }
+): Promise<CustomDomainSettings> {
+  const { zoneId, enabled = true, minTLS, ciphers, ...requestOptions } = options;
+  return await cloudflareApiRequest<CustomDomainSettings>(customDomainPath(bucketName), {
+    ...requestOptions,
+    method: 'POST',
+    body: { domain, zoneId, enabled, minTLS, ciphers },
+    context: { bucket: bucketName },
+  });
+}
+
+/**
+ * 修改存储桶自定义域名的设置（如暂时停用公开访问、提高最低 TLS 版本）
+ * @param bucketName 存储桶名称
+ * @param domain 域名
+ * @param settings 要修改的设置，未设置的项保持不变
+ * @param options 可选配置（取消信号、超时）
+ * @throws NotFoundError 存储桶未绑定该域名时
+ * @returns 修改后的域名设置
+ */
+export async function updateCustomDomain(
+  bucketName: string,
+  domain: string,
+  settings: Partial<Pick<CustomDomainSettings, 'enabled' | 'minTLS' | 'ciphers'>>,
+  options?: RequestOptions
+): Promise<CustomDomainSettings> {
+  return await cloudflareApiRequest<CustomDomainSettings>(customDomainPath(bucketName, domain), {
+    ...options,
+    method: 'PUT',
+    body: settings,
+    context: { bucket: bucketName },
+  });
+}
+
+/**
+ * 解除存储桶与自定义域名的绑定
+ * @param bucketName 存储桶名称
+ * @param domain 域名
+ * @param options 可选配置（取消信号、超时）
+ * @throws NotFoundError 存储桶未绑定该域名时
+ * @returns 被移除的域名
+ */
+export async function removeCustomDomain(
+  bucketName: string,
+  domain: string,
+  options?: RequestOptions
+): Promise<{ domain: string }> {
+  return await cloudflareApiRequest<{ domain: string }>(customDomainPath(bucketName, domain), {
+    ...options,
+    method: 'DELETE',
+    context: { bucket: bucketName },
+  });
+}
+
+/**
+ * 获取存储桶的 r2.dev 公开访问地址及其启用状态
+ * @param bucketName 存储桶名称
+ * @param options 可选配置（取消信号、超时）
+ * @returns r2.dev 域名设置
+ */
+export async function getManagedDomain(
+  bucketName: string,
+  options?: RequestOptions
+): Promise<ManagedDomain> {
+  return await cloudflareApiRequest<ManagedDomain>(
+    `/r2/buckets/${encodeURIComponent(bucketName)}/domains/managed`,
+    { ...options, context: { bucket: bucketName } }
+  );
+}
+
+/**
+ * 启用或停用存储桶的 r2.dev 公开访问地址
+ *
+ * r2.dev 地址有请求频率限制，仅适合开发测试；生产环境请使用自定义域名。
+ * @param bucketName 存储桶名称
+ * @param enabled 是否启用
+ * @param options 可选配置（取消信号、超时）
+ * @returns 修改后的 r2.dev 域名设置
+ */
+export async function setManagedDomain(
+  bucketName: string,
+  enabled: boolean,
+  options?: RequestOptions
+): Promise<ManagedDomain> {
+  return await cloudflareApiRequest<ManagedDomain>(
+    `/r2/buckets/${encodeURIComponent(bucketName)}/domains/managed`,
+    { ...options, method: 'PUT', body: { enabled }, context: { bucket: bucketName } }
+  );
+}
+
+/**
+ * 获取存储桶的公开访问地址
+ *
+ * 优先使用已启用且验证通过的自定义域名，其次使用已启用的 r2.dev 地址。
+ * @param bucketName 存储桶名称
+ * @param options 可选配置（取消信号、超时）
+ * @returns 地址（如 "https://assets.example.com"），存储桶未公开时返回 null
+ *
+ * @example
+ * ```typescript
+ * const baseUrl = await getPublicBaseUrl('assets');
+ * if (baseUrl) console.log(`${baseUrl}/${encodeURI('images/logo.png')}`);
+ * ```
+ */
+export async function getPublicBaseUrl(
+  bucketName: string,
+  options?: RequestOptions
+): Promise<string | null> {
+  const domains = await listCustomDomains(bucketName, options);
+  const custom = domains.find(
+    (domain) =>
+      domain.enabled && domain.status?.ownership === 'active' && domain.status?.ssl === 'active'
+  );
+  if (custom) {
+    return `https://${custom.domain}`;
+  }
+
+  const managed = await getManagedDomain(bucketName, options);
+  return managed?.enabled ? `https://${managed.domain}` : null;
+}
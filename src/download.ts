@@ -6,40 +6,98 @@ import {
   ListObjectsV2Command,
   type _Object,
 } from '@aws-sdk/client-s3';
-import { getR2Client } from './config.js';
+import { open, mkdir, rename, rm, stat } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import {
+  createRequestSignal,
+  sendCommand,
+  throwIfAborted,
+  type RequestOptions,
+} from './config.js';
+import {
+  computeBlobChecksum,
+  getChecksumMetadataKey,
+  type ChecksumAlgorithm,
+} from './checksum.js';
+import type { ObjectConditions } from './conditions.js';
+import { IntegrityError, R2Error } from './errors.js';
+import { mapConcurrent } from './utils.js';
+
+/**
+ * 字节范围，end 为包含在内的结束位置，省略时读取到对象末尾
+ */
+export type ByteRange = { start: number; end?: number } | string;
+
+/**
+ * 将字节范围转换为 Range 请求头格式
+ * @param range 字节范围
+ * @returns Range 请求头，如 "bytes=0-1023"
+ */
+function formatRange(range: ByteRange): string {
+  if (typeof range === 'string') {
+    return range;
+  }
+  return `bytes=${range.start}-${range.end ?? ''}`;
+}
 
 /**
  * 获取/下载对象
  * @param bucketName 存储桶名称
  * @param key 对象键
+ * @param options 可选配置（如字节范围、条件请求）
+ * @throws NotModifiedError 对象未修改时（If-None-Match / If-Modified-Since）
+ * @throws PreconditionFailedError 条件不满足时（If-Match / If-Unmodified-Since）
  * @returns 对象内容和元数据
  */
-export async function getObject(bucketName: string, key: string) {
-  const client = getR2Client();
-
+export async function getObject(
+  bucketName: string,
+  key: string,
+  options?: RequestOptions & {
+    range?: ByteRange; // 格式: { start, end } 或 "bytes=start-end"
+    conditions?: ObjectConditions;
+  }
+) {
   const command = new GetObjectCommand({
     Bucket: bucketName,
     Key: key,
+    Range: options?.range ? formatRange(options.range) : undefined,
+    IfMatch: options?.conditions?.ifMatch,
+    IfNoneMatch: options?.conditions?.ifNoneMatch,
+    IfModifiedSince: options?.conditions?.ifModifiedSince,
+    IfUnmodifiedSince: options?.conditions?.ifUnmodifiedSince,
   });
 
-  return await client.send(command);
+  return await sendCommand(command, options);
 }
 
 /**
  * 获取对象元数据（不下载内容）
  * @param bucketName 存储桶名称
  * @param key 对象键
- * @returns 对象元数据
+ * @param options 可选配置（条件请求）
+ * @throws NotModifiedError 对象未修改时（If-None-Match / If-Modified-Since）
+ * @throws PreconditionFailedError 条件不满足时（If-Match / If-Unmodified-Since）
+ * @returns 对象元数据（StorageClass 始终有值，标准存储为 "STANDARD"）
  */
-export async function headObject(bucketName: string, key: string) {
-  const client = getR2Client();
-
+export async function headObject(
+  bucketName: string,
+  key: string,
+  options?: RequestOptions & {
+    conditions?: ObjectConditions;
+  }
+) {
   const command = new HeadObjectCommand({
     Bucket: bucketName,
     Key: key,
+    IfMatch: options?.conditions?.ifMatch,
+    IfNoneMatch: options?.conditions?.ifNoneMatch,
+    IfModifiedSince: options?.conditions?.ifModifiedSince,
+    IfUnmodifiedSince: options?.conditions?.ifUnmodifiedSince,
   });
 
-  return await client.send(command);
+  const response = await sendCommand(command, options);
+  // 标准存储的对象不返回 x-amz-storage-class 响应头
+  return { ...response, StorageClass: response.StorageClass ?? ('STANDARD' as const) };
 }
 
 /**
@@ -50,15 +108,13 @@ export async function headObject(bucketName: string, key: string) {
  */
 export async function listObjects(
   bucketName: string,
-  options?: {
+  options?: RequestOptions & {
     prefix?: string;
     delimiter?: string;
     marker?: string;
     maxKeys?: number;
   }
 ) {
-  const client = getR2Client();
-
   const command = new ListObjectsCommand({
     Bucket: bucketName,
     Prefix: options?.prefix,
@@ -67,7 +123,7 @@ export async function listObjects(
     MaxKeys: options?.maxKeys,
   });
 
-  return await client.send(command);
+  return await sendCommand(command, options);
 }
 
 /**
@@ -78,7 +134,7 @@ export async function listObjects(
  */
 export async function listObjectsV2(
   bucketName: string,
-  options?: {
+  options?: RequestOptions & {
     prefix?: string;
     delimiter?: string;
     continuationToken?: string;
@@ -86,8 +142,6 @@ export async function listObjectsV2(
     startAfter?: string;
   }
 ) {
-  const client = getR2Client();
-
   const command = new ListObjectsV2Command({
     Bucket: bucketName,
     Prefix: options?.prefix,
@@ -97,37 +151,471 @@ export async function listObjectsV2(
     StartAfter: options?.startAfter,
   });
 
-  return await client.send(command);
+  return await sendCommand(command, options);
+}
+
+/**
+ * 遍历列表的配置
+ */
+export type ListIterationOptions = RequestOptions & {
+  prefix?: string;
+  /** 分隔符，如 "/"；设置后分隔符之后的部分会被归并为公共前缀（子目录） */
+  delimiter?: string;
+  /** 从该对象键之后开始列出 */
+  startAfter?: string;
+  /** 从上次遍历返回的续传标记继续 */
+  continuationToken?: string;
+  /** 每页最多返回的条目数（对象与公共前缀合计），默认 1000 */
+  pageSize?: number;
+};
+
+/**
+ * 列表中的一页
+ */
+export interface ObjectListPage {
+  /** 本页的对象 */
+  objects: _Object[];
+  /** 本页的公共前缀（仅设置 delimiter 时存在），如 "photos/2024/" */
+  prefixes: string[];
+  /** 下一页的续传标记，最后一页为 undefined */
+  continuationToken?: string;
+}
+
+/**
+ * 逐页遍历对象列表（自动处理分页）
+ *
+ * 每次只请求一页，可随时 break 提前结束，适合对象数量很大的存储桶。
+ * timeout 覆盖整个遍历过程。
+ * @param bucketName 存储桶名称
+ * @param options 可选配置
+ * @returns 逐页产出对象和公共前缀的异步迭代器
+ *
+ * @example
+ * ```typescript
+ * for await (const page of iteratePages('my-bucket', { prefix: 'logs/', delimiter: '/' })) {
+ *   console.log(page.prefixes, page.objects.length);
+ * }
+ * ```
+ */
+export async function* iteratePages(
+  bucketName: string,
+  options?: ListIterationOptions
+): AsyncGenerator<ObjectListPage, void, undefined> {
+  const signal = createRequestSignal(options);
+  let continuationToken = options?.continuationToken;
+
+  do {
+    const response = await listObjectsV2(bucketName, {
+      prefix: options?.prefix,
+      delimiter: options?.delimiter,
+      startAfter: continuationToken ? undefined : options?.startAfter,
+      maxKeys: options?.pageSize,
+      continuationToken,
+      signal,
+    });
+
+    continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    yield {
+      objects: (response.Contents ?? []).map((object) => ({
+        ...object,
+        StorageClass: object.StorageClass ?? ('STANDARD' as const),
+      })),
+      prefixes: (response.CommonPrefixes ?? [])
+        .map((commonPrefix) => commonPrefix.Prefix)
+        .filter((prefix): prefix is string => prefix !== undefined),
+      continuationToken,
+    };
+  } while (continuationToken);
+}
+
+/**
+ * 逐个遍历对象（自动处理分页）
+ *
+ * 设置 delimiter 时只产出当前层级的对象，子目录请使用 iteratePages 或 listDirectory 获取。
+ * @param bucketName 存储桶名称
+ * @param options 可选配置
+ * @returns 逐个产出对象的异步迭代器
+ *
+ * @example
+ * ```typescript
+ * for await (const object of iterateObjects('my-bucket', { prefix: 'logs/' })) {
+ *   if (object.Size! > 1024 * 1024 * 1024) {
+ *     console.log('found large object', object.Key);
+ *     break;
+ *   }
+ * }
+ * ```
+ */
+export async function* iterateObjects(
+  bucketName: string,
+  options?: ListIterationOptions
+): AsyncGenerator<_Object, void, undefined> {
+  for await (const page of iteratePages(bucketName, options)) {
+    yield* page.objects;
+  }
 }
 
 /**
  * 分页列出所有对象（自动处理分页）
+ * 结果全部保存在内存中，对象很多时请使用 iterateObjects
  * @param bucketName 存储桶名称
  * @param options 可选配置
  * @returns 所有对象的数组
  */
 export async function listAllObjects(
   bucketName: string,
-  options?: {
+  options?: RequestOptions & {
     prefix?: string;
     delimiter?: string;
   }
 ) {
   const allObjects: _Object[] = [];
-  let continuationToken: string | undefined = undefined;
+  for await (const object of iterateObjects(bucketName, options)) {
+    allObjects.push(object);
+  }
+  return allObjects;
+}
 
-  do {
-    const response = await listObjectsV2(bucketName, {
-      ...options,
-      continuationToken,
+/**
+ * 目录层级的列表结果
+ */
+export interface DirectoryListing {
+  /** 当前目录前缀，如 "photos/"，根目录为 "" */
+  prefix: string;
+  /** 子目录的完整前缀，如 "photos/2024/" */
+  folders: string[];
+  /** 当前目录下的文件（不含子目录中的文件） */
+  files: _Object[];
+}
+
+/**
+ * 列出一个“目录”层级：子目录和当前目录下的文件
+ * @param bucketName 存储桶名称
+ * @param prefix 目录前缀，如 "photos/"（末尾没有分隔符时会自动补上），省略表示根目录
+ * @param options 可选配置（delimiter 默认 "/"）
+ * @returns 子目录与文件列表
+ */
+export async function listDirectory(
+  bucketName: string,
+  prefix: string = '',
+  options?: RequestOptions & {
+    delimiter?: string;
+  }
+): Promise<DirectoryListing> {
+  const delimiter = options?.delimiter ?? '/';
+  const directory = prefix && !prefix.endsWith(delimiter) ? prefix + delimiter : prefix;
+  const listing: DirectoryListing = { prefix: directory, folders: [], files: [] };
+
+  for await (const page of iteratePages(bucketName, {
+    ...options,
+    prefix: directory || undefined,
+    delimiter,
+  })) {
+    listing.folders.push(...page.prefixes);
+    // 目录占位对象（键与目录前缀相同）不作为文件返回
+    listing.files.push(...page.objects.filter((object) => object.Key !== directory));
+  }
+
+  return listing;
+}
+
+/**
+ * 下载进度
+ */
+export interface DownloadProgress {
+  /** 已下载字节数（包含续传前已下载的部分） */
+  loaded: number;
+  /** 对象总字节数 */
+  total: number;
+}
+
+/**
+ * 下载到文件的配置（timeout 覆盖整个下载过程）
+ */
+export interface DownloadOptions extends RequestOptions {
+  /** 超过该大小时拆分为多个范围请求并行下载，默认 64 MB */
+  parallelThreshold?: number;
+  /** 每个范围请求的大小，默认 16 MB */
+  partSize?: number;
+  /** 同时进行的范围请求数量，默认 4，设为 1 则顺序下载 */
+  concurrency?: number;
+  /** 是否从上次中断处继续下载，默认 false */
+  resume?: boolean;
+  /**
+   * 下载完成后校验内容，默认 false。优先使用上传时保存在元数据中的校验值，
+   * 否则对非分段上传的对象比较 MD5 与 ETag；不一致时抛出 IntegrityError
+   */
+  verifyChecksum?: boolean;
+  /** 进度回调 */
+  onProgress?: (progress: DownloadProgress) => void;
+}
+
+/**
+ * 下载到文件的结果
+ */
+export interface DownloadResult {
+  filePath: string;
+  size: number;
+  etag?: string;
+  /** 是否使用了并行范围下载 */
+  parallel: boolean;
+  /** 续传时跳过的字节数 */
+  resumedBytes: number;
+  /** 是否已校验内容（设置 verifyChecksum 且对象有可用的校验值时为 true） */
+  verified: boolean;
+}
+
+/**
+ * 下载状态文件内容，与临时文件一同保存以支持续传
+ */
+interface DownloadState {
+  version: 1;
+  bucket: string;
+  key: string;
+  etag?: string;
+  size: number;
+  partSize: number;
+  /** 已完成的分块序号 */
+  completed: number[];
+}
+
+const DEFAULT_DOWNLOAD_PART_SIZE = 16 * 1024 * 1024;
+const DEFAULT_PARALLEL_THRESHOLD = 64 * 1024 * 1024;
+const DEFAULT_DOWNLOAD_CONCURRENCY = 4;
+
+/**
+ * 读取下载状态文件
+ * @param statePath 状态文件路径
+ * @returns 下载状态，不存在或无法解析时返回 null
+ */
+async function readDownloadState(statePath: string): Promise<DownloadState | null> {
+  const file = Bun.file(statePath);
+  if (!(await file.exists())) {
+    return null;
+  }
+  try {
+    const state = (await file.json()) as DownloadState;
+    return state.version === 1 ? state : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 下载对象的一个字节范围并写入文件的对应位置
+ * @param handle 目标文件句柄
+ * @param bucketName 存储桶名称
+ * @param key 对象键
+ * @param start 起始位置
+ * @param end 结束位置（包含）
+ * @param etag 期望的 ETag，对象在下载过程中被修改时抛出错误
+ * @param signal 取消信号
+ * @param onBytes 每写入一块数据时回调
+ */
+async function downloadRange(
+  handle: Awaited<ReturnType<typeof open>>,
+  bucketName: string,
+  key: string,
+  start: number,
+  end: number,
+  etag: string | undefined,
+  signal: AbortSignal | undefined,
+  onBytes: (bytes: number) => void
+) {
+  // If-Match 保证各个范围来自同一版本的对象，对象被修改时抛出 PreconditionFailedError
+  const response = await getObject(bucketName, key, {
+    range: { start, end },
+    conditions: etag ? { ifMatch: etag } : undefined,
+    signal,
+  });
+  if (!response.Body) {
+    throw new R2Error(`Empty response body for ${bucketName}/${key}`, { bucket: bucketName, key });
+  }
+
+  const reader = response.Body.transformToWebStream().getReader();
+  let position = start;
+  try {
+    while (true) {
+      throwIfAborted(signal);
+      const { value, done } = await reader.read();
+      if (done) {
+        break;
+      }
+      await handle.write(value, 0, value.byteLength, position);
+      position += value.byteLength;
+      onBytes(value.byteLength);
+    }
+  } catch (error) {
+    await reader.cancel().catch(() => undefined);
+    throw error;
+  } finally {
+    reader.releaseLock();
+  }
+
+  if (position !== end + 1) {
+    throw new R2Error(
+      `Incomplete range for ${bucketName}/${key}: expected ${end + 1 - start} bytes, got ${position - start}`,
+      { bucket: bucketName, key }
+    );
+  }
+}
+
+/**
+ * 校验已下载文件的内容
+ * @param filePath 已下载的文件
+ * @param bucketName 存储桶名称
+ * @param key 对象键
+ * @param head 对象元数据
+ * @throws IntegrityError 校验值不一致时
+ * @returns 对象没有可用的校验值时返回 false
+ */
+async function verifyDownloadedFile(
+  filePath: string,
+  bucketName: string,
+  key: string,
+  head: { Metadata?: Record<string, string>; ETag?: string }
+): Promise<boolean> {
+  const algorithms: ChecksumAlgorithm[] = ['SHA256', 'CRC32C', 'CRC32', 'MD5'];
+  const algorithm = algorithms.find((a) => head.Metadata?.[getChecksumMetadataKey(a)]);
+  const file = Bun.file(filePath);
+  let expected: string;
+  let actual: string;
+
+  if (algorithm) {
+    expected = head.Metadata![getChecksumMetadataKey(algorithm)]!;
+    actual = await computeBlobChecksum(file, algorithm);
+  } else if (head.ETag && !head.ETag.includes('-')) {
+    // 非分段上传对象的 ETag 即内容的 MD5（十六进制）
+    expected = head.ETag.replaceAll('"', '');
+    actual = Buffer.from(await computeBlobChecksum(file, 'MD5'), 'base64').toString('hex');
+  } else {
+    return false;
+  }
+
+  if (expected !== actual) {
+    throw new IntegrityError(
+      `${algorithm ?? 'MD5'} checksum mismatch for ${bucketName}/${key}: expected ${expected}, got ${actual}`,
+      { bucket: bucketName, key, expected, actual }
+    );
+  }
+  return true;
+}
+
+/**
+ * 下载对象并以流式方式写入本地文件
+ *
+ * 数据先写入临时文件（目标路径加 .r2download 后缀），完成后再重命名为目标文件。
+ * 大对象拆分为多个范围请求并行下载；开启 resume 时，会根据状态文件跳过已完成的部分，
+ * 对象在两次下载之间发生变化（ETag 或大小不同）时重新下载。
+ * 下载过程中对象被修改时抛出 PreconditionFailedError；开启 verifyChecksum 且内容校验失败时
+ * 删除临时文件并抛出 IntegrityError。
+ * @param bucketName 存储桶名称
+ * @param key 对象键
+ * @param filePath 本地文件路径
+ * @param options 可选配置
+ * @returns 下载结果
+ */
+export async function downloadToFile(
+  bucketName: string,
+  key: string,
+  filePath: string,
+  options?: DownloadOptions
+): Promise<DownloadResult> {
+  const signal = createRequestSignal(options);
+  const head = await headObject(bucketName, key, { signal });
+  const size = head.ContentLength ?? 0;
+  const etag = head.ETag;
+
+  const concurrency = options?.concurrency ?? DEFAULT_DOWNLOAD_CONCURRENCY;
+  const parallel =
+    concurrency > 1 && size > (options?.parallelThreshold ?? DEFAULT_PARALLEL_THRESHOLD);
+  const partSize = parallel ? options?.partSize ?? DEFAULT_DOWNLOAD_PART_SIZE : Math.max(size, 1);
+
+  const tempPath = `${filePath}.r2download`;
+  const statePath = `${tempPath}.json`;
+  await mkdir(dirname(filePath), { recursive: true });
+
+  // 检查是否可以续传：状态文件与当前对象一致且临时文件存在
+  const saved = options?.resume ? await readDownloadState(statePath) : null;
+  const tempSize = await stat(tempPath).then((s) => s.size, () => -1);
+  const resuming =
+    saved !== null &&
+    tempSize >= 0 &&
+    saved.bucket === bucketName &&
+    saved.key === key &&
+    saved.etag === etag &&
+    saved.size === size &&
+    saved.partSize === partSize;
+  const state: DownloadState = resuming
+    ? saved
+    : { version: 1, bucket: bucketName, key, etag, size, partSize, completed: [] };
+
+  const partCount = Math.ceil(size / partSize);
+  const completed = new Set(state.completed);
+  const partEnd = (index: number) => Math.min((index + 1) * partSize, size) - 1;
+
+  // 顺序下载时以临时文件长度作为续传位置
+  let sequentialOffset = 0;
+  if (resuming && !parallel && state.completed.length === 0) {
+    sequentialOffset = Math.min(tempSize, size);
+  }
+
+  let loaded = sequentialOffset;
+  for (const index of completed) {
+    loaded += partEnd(index) + 1 - index * partSize;
+  }
+  const resumedBytes = loaded;
+
+  // 并行分段同时完成时按顺序写入状态文件，避免写入交错或旧状态覆盖新状态
+  let writing: Promise<unknown> = Promise.resolve();
+  const saveState = () => {
+    state.completed = [...completed].sort((a, b) => a - b);
+    const snapshot = JSON.stringify(state);
+    writing = writing.then(() => Bun.write(statePath, snapshot));
+    return writing;
+  };
+
+  const handle = await open(tempPath, resumedBytes > 0 ? 'r+' : 'w');
+  try {
+    await saveState();
+    options?.onProgress?.({ loaded, total: size });
+
+    const pending = Array.from({ length: partCount }, (_, i) => i).filter(
+      (index) => !completed.has(index)
+    );
+
+    await mapConcurrent(pending, parallel ? concurrency : 1, async (index) => {
+      const start = index === 0 ? sequentialOffset : index * partSize;
+      const end = partEnd(index);
+      if (start <= end) {
+        await downloadRange(handle, bucketName, key, start, end, etag, signal, (bytes) => {
+          loaded += bytes;
+          options?.onProgress?.({ loaded, total: size });
+        });
+      }
+      completed.add(index);
+      await saveState();
     });
 
-    if (response.Contents) {
-      allObjects.push(...response.Contents);
+    await handle.truncate(size);
+  } finally {
+    await handle.close();
+  }
+
+  let verified = false;
+  if (options?.verifyChecksum) {
+    try {
+      verified = await verifyDownloadedFile(tempPath, bucketName, key, head);
+    } catch (error) {
+      // 内容已损坏，不保留用于续传
+      await rm(tempPath, { force: true });
+      await rm(statePath, { force: true });
+      throw error;
     }
+  }
 
-    continuationToken = response.NextContinuationToken;
-  } while (continuationToken);
+  await rename(tempPath, filePath);
+  await Bun.file(statePath).delete().catch(() => undefined);
 
-  return allObjects;
+  return { filePath, size, etag, parallel, resumedBytes, verified };
 }
@@ -0,0 +1,378 @@
+/**
+ * 错误发生时的上下文（来自请求参数）
+ */
+export interface R2ErrorContext {
+  bucket?: string;
+  key?: string;
+}
+
+/**
+ * 创建错误时的附加信息
+ */
+export interface R2ErrorOptions extends R2ErrorContext {
+  /** HTTP 状态码 */
+  statusCode?: number;
+  /** R2 返回的错误码，如 NoSuchKey、AccessDenied */
+  code?: string;
+  /** 请求ID，便于排查问题 */
+  requestId?: string;
+  /** 原始错误 */
+  cause?: unknown;
+}
+
+/**
+ * 所有 R2 操作错误的基类
+ */
+export class R2Error extends Error {
+  override name = 'R2Error';
+  readonly statusCode?: number;
+  readonly code?: string;
+  readonly requestId?: string;
+  readonly bucket?: string;
+  readonly key?: string;
+
+  constructor(message: string, options?: R2ErrorOptions) {
+    super(message, { cause: options?.cause });
+    this.statusCode = options?.statusCode;
+    this.code = options?.code;
+    this.requestId = options?.requestId;
+    this.bucket = options?.bucket;
+    this.key = options?.key;
+  }
+}
+
+/**
+ * 存储桶、对象或分段上传不存在（HTTP 404）
+ */
+export class NotFoundError extends R2Error {
+  override name = 'NotFoundError';
+}
+
+/**
+ * 无权访问（HTTP 403），通常是 API Token 权限不足
+ */
+export class AccessDeniedError extends R2Error {
+  override name = 'AccessDeniedError';
+}
+
+/**
+ * 凭证无效：Access Key ID 不存在或签名不匹配
+ */
+export class InvalidCredentialsError extends R2Error {
+  override name = 'InvalidCredentialsError';
+}
+
+/**
+ * 条件不满足（HTTP 412）：If-Match / If-Unmodified-Since 不成立，
+ * 或 If-None-Match: * 时对象已存在
+ */
+export class PreconditionFailedError extends R2Error {
+  override name = 'PreconditionFailedError';
+}
+
+/**
+ * 对象未修改（HTTP 304）：If-None-Match / If-Modified-Since 条件下对象未发生变化
+ */
+export class NotModifiedError extends R2Error {
+  override name = 'NotModifiedError';
+}
+
+/**
+ * 资源状态冲突（HTTP 409），如存储桶已存在或存储桶非空
+ */
+export class ConflictError extends R2Error {
+  override name = 'ConflictError';
+}
+
+/**
+ * 请求过于频繁（HTTP 429 / SlowDown）
+ */
+export class RateLimitedError extends R2Error {
+  override name = 'RateLimitedError';
+  /** 服务端建议的重试等待时间（秒） */
+  readonly retryAfter?: number;
+
+  constructor(message: string, options?: R2ErrorOptions & { retryAfter?: number }) {
+    super(message, options);
+    this.retryAfter = options?.retryAfter;
+  }
+}
+
+/**
+ * 服务端错误（HTTP 5xx）
+ */
+export class ServerError extends R2Error {
+  override name = 'ServerError';
+}
+
+/**
+ * 操作被调用方通过 AbortSignal 取消
+ */
+export class AbortedError extends R2Error {
+  override name = 'AbortedError';
+}
+
+/**
+ * 操作超过了指定的超时时间
+ */
+export class TimeoutError extends R2Error {
+  override name = 'TimeoutError';
+}
+
+/**
+ * 数据完整性校验失败：下载内容的校验值与上传时记录的不一致
+ */
+export class IntegrityError extends R2Error {
+  override name = 'IntegrityError';
+  /** 期望的校验值 */
+  readonly expected?: string;
+  /** 实际计算得到的校验值 */
+  readonly actual?: string;
+
+  constructor(message: string, options?: R2ErrorOptions & { expected?: string; actual?: string }) {
+    super(message, options);
+    this.expected = options?.expected;
+    this.actual = options?.actual;
+  }
+}
+
+/**
+ * 判断是否为 R2 操作错误
+ * @param error 任意错误
+ */
+export function isR2Error(error: unknown): error is R2Error {
+  return error instanceof R2Error;
+}
+
+/**
+ * 判断是否为资源不存在错误
+ * @param error 任意错误
+ */
+export function isNotFound(error: unknown): error is NotFoundError {
+  return error instanceof NotFoundError;
+}
+
+/**
+ * 判断是否为无权访问错误
+ * @param error 任意错误
+ */
+export function isAccessDenied(error: unknown): error is AccessDeniedError {
+  return error instanceof AccessDeniedError;
+}
+
+/**
+ * 判断是否为凭证无效错误
+ * @param error 任意错误
+ */
+export function isInvalidCredentials(error: unknown): error is InvalidCredentialsError {
+  return error instanceof InvalidCredentialsError;
+}
+
+/**
+ * 判断是否为条件不满足错误
+ * @param error 任意错误
+ */
+export function isPreconditionFailed(error: unknown): error is PreconditionFailedError {
+  return error instanceof PreconditionFailedError;
+}
+
+/**
+ * 判断是否为对象未修改错误
+ * @param error 任意错误
+ */
+export function isNotModified(error: unknown): error is NotModifiedError {
+  return error instanceof NotModifiedError;
+}
+
+/**
+ * 判断是否为资源状态冲突错误
+ * @param error 任意错误
+ */
+export function isConflict(error: unknown): error is ConflictError {
+  return error instanceof ConflictError;
+}
+
+/**
+ * 判断是否为请求过于频繁错误
+ * @param error 任意错误
+ */
+export function isRateLimited(error: unknown): error is RateLimitedError {
+  return error instanceof RateLimitedError;
+}
+
+/**
+ * 判断是否为服务端错误
+ * @param error 任意错误
+ */
+export function isServerError(error: unknown): error is ServerError {
+  return error instanceof ServerError;
+}
+
+/**
+ * 判断是否为操作被取消错误
+ * @param error 任意错误
+ */
+export function isAborted(error: unknown): error is AbortedError {
+  return error instanceof AbortedError;
+}
+
+/**
+ * 判断是否为操作超时错误
+ * @param error 任意错误
+ */
+export function isTimeout(error: unknown): error is TimeoutError {
+  return error instanceof TimeoutError;
+}
+
+/**
+ * 判断是否为数据完整性校验失败错误
+ * @param error 任意错误
+ */
+export function isIntegrityError(error: unknown): error is IntegrityError {
+  return error instanceof IntegrityError;
+}
+
+/**
+ * 判断是否为网络层错误（连接被重置、DNS 失败、套接字超时等，请求未得到 HTTP 响应）
+ * @param error 任意错误
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (error instanceof R2Error || !error || typeof error !== 'object') {
+    return false;
+  }
+  const { name, code } = error as { name?: string; code?: string };
+  return (
+    (code !== undefined && NETWORK_ERROR_CODES.has(code)) ||
+    name === 'TimeoutError' ||
+    name === 'NetworkingError' ||
+    name === 'RequestTimeout'
+  );
+}
+
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'EPIPE',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'ENETUNREACH',
+  'ConnectionRefused',
+  'ConnectionReset',
+]);
+
+const NOT_FOUND_CODES = new Set(['NoSuchKey', 'NoSuchBucket', 'NoSuchUpload', 'NotFound']);
+const INVALID_CREDENTIALS_CODES = new Set([
+  'InvalidAccessKeyId',
+  'SignatureDoesNotMatch',
+  'InvalidToken',
+  'ExpiredToken',
+  'Unauthorized',
+]);
+
+/**
+ * 将 AWS SDK 抛出的错误转换为对应的 R2 错误类型
+ * 没有 HTTP 响应的错误（如网络错误、本地错误）以及已转换的错误原样返回
+ * @param error SDK 抛出的错误
+ * @param context 存储桶和对象键
+ * @returns 转换后的错误
+ */
+export function toR2Error(error: unknown, context?: R2ErrorContext): unknown {
+  if (error instanceof R2Error) {
+    return error;
+  }
+
+  const sdkError = error as {
+    name?: string;
+    message?: string;
+    $metadata?: { httpStatusCode?: number; requestId?: string; extendedRequestId?: string };
+    $response?: { headers?: Record<string, string | undefined> };
+  };
+  const metadata = sdkError?.$metadata;
+  if (!metadata || metadata.httpStatusCode === undefined) {
+    return error;
+  }
+
+  const statusCode = metadata.httpStatusCode;
+  const code = sdkError.name;
+  const target = [context?.bucket, context?.key].filter(Boolean).join('/');
+  const options: R2ErrorOptions = {
+    statusCode,
+    code,
+    requestId: metadata.requestId ?? metadata.extendedRequestId,
+    bucket: context?.bucket,
+    key: context?.key,
+    cause: error,
+  };
+  const message = (fallback: string) =>
+    sdkError.message && sdkError.message !== 'UnknownError' && sdkError.message !== code
+      ? sdkError.message
+      : fallback;
+
+  if (statusCode === 304 || code === 'NotModified') {
+    return new NotModifiedError(`Object ${target} not modified`, options);
+  }
+  if (statusCode === 412 || code === 'PreconditionFailed') {
+    return new PreconditionFailedError(`Precondition failed for ${target}`, options);
+  }
+  if (statusCode === 404 || (code && NOT_FOUND_CODES.has(code))) {
+    return new NotFoundError(message(`${target || 'Resource'} not found`), options);
+  }
+  if (statusCode === 401 || (code && INVALID_CREDENTIALS_CODES.has(code))) {
+    return new InvalidCredentialsError(message('Invalid R2 credentials'), options);
+  }
+  if (statusCode === 403 || code === 'AccessDenied') {
+    return new AccessDeniedError(message(`Access denied to ${target || 'resource'}`), options);
+  }
+  if (statusCode === 409) {
+    return new ConflictError(message(`Conflict on ${target || 'resource'}`), options);
+  }
+  if (statusCode === 429 || code === 'SlowDown' || code === 'TooManyRequests') {
+    const retryAfter = Number(sdkError.$response?.headers?.['retry-after']);
+    return new RateLimitedError(message('Rate limited by R2'), {
+      ...options,
+      retryAfter: Number.isFinite(retryAfter) ? retryAfter : undefined,
+    });
+  }
+  if (statusCode !== undefined && statusCode >= 500) {
+    return new ServerError(message(`R2 server error (${statusCode})`), options);
+  }
+
+  return new R2Error(message(`R2 request failed${statusCode ? ` (${statusCode})` : ''}`), options);
+}
+
+/**
+ * 根据 HTTP 状态码创建对应的 R2 错误类型（用于 Cloudflare REST API 等非 S3 请求）
+ * @param statusCode HTTP 状态码
+ * @param message 错误信息
+ * @param options 附加信息（retryAfter 为 429 响应的 Retry-After 秒数）
+ * @returns 对应类型的错误
+ */
+export function createHttpError(
+  statusCode: number,
+  message: string,
+  options?: R2ErrorOptions & { retryAfter?: number }
+): R2Error {
+  const { retryAfter, ...errorOptions } = options ?? {};
+  const resolved = { ...errorOptions, statusCode };
+
+  switch (true) {
+    case statusCode === 401:
+      return new InvalidCredentialsError(message, resolved);
+    case statusCode === 403:
+      return new AccessDeniedError(message, resolved);
+    case statusCode === 404:
+      return new NotFoundError(message, resolved);
+    case statusCode === 409:
+      return new ConflictError(message, resolved);
+    case statusCode === 412:
+      return new PreconditionFailedError(message, resolved);
+    case statusCode === 429:
+      return new RateLimitedError(message, { ...resolved, retryAfter });
+    case statusCode >= 500:
+      return new ServerError(message, resolved);
+    default:
+      return new R2Error(message, resolved);
+  }
+}
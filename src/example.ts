@@ -13,7 +13,11 @@ import {
   completeMultipartUpload,
   listBuckets,
   headBucket,
-  getBucketLocation
+  getBucketLocation,
+  getPublicBaseUrl,
+  isAccessDenied,
+  isInvalidCredentials,
+  isNotFound
 } from './index.js';
 
 // 获取文件名
@@ -68,11 +72,12 @@ async function listFiles(bucket:string, option?:{maxLength?:number}) {
     const result = await listObjectsV2(bucket, {
       maxKeys: option?.maxLength || 10,
     });
-    const domains = await getBucketDomains(bucket);    
+    // 需要配置 R2_ACCOUNT_TOKEN，未配置或获取失败时不显示地址
+    const baseUrl = await getPublicBaseUrl(bucket).catch(() => null);
     if (result.Contents && result.Contents.length > 0) {
       console.log(`✅ "${bucket}" (${result.Contents?.length} 个文件)：`);
       const files = result.Contents.map((file, index) => {
-        const fileUrl = domains.length > 0 ? 'https://' + domains[0] + '/' + file.Key : '';
+        const fileUrl = baseUrl && file.Key ? baseUrl + '/' + encodeURI(file.Key) : '';
         console.log(`  ${index + 1}.📄 ${file.Key} (${file.Size} bytes) \t ${fileUrl? '🔗 ' + fileUrl : ''}`);
         return {
           fileName: file.Key,
@@ -86,10 +91,10 @@ async function listFiles(bucket:string, option?:{maxLength?:number}) {
       return [];
     }
   } catch (error: any) {
-    if (error.name === 'NoSuchBucket') {
+    if (isNotFound(error)) {
       console.error(`❌ 存储桶 "${bucket}" 不存在`);
       console.error(`   请先在 Cloudflare R2 控制台创建此存储桶`);
-    } else if (error.name === 'AccessDenied') {
+    } else if (isAccessDenied(error)) {
       console.error('❌ 访问被拒绝，请检查凭证权限');
     } else {
       console.error('❌ 列出文件失败:', error.message);
@@ -177,7 +182,7 @@ async function listAllBuckets(): Promise<(string | undefined)[] | undefined> {
     });
     return buckets;
   } catch (error: any) {
-    if (error.name === 'AccessDenied') {
+    if (isAccessDenied(error) || isInvalidCredentials(error)) {
       console.error('❌ 访问被拒绝，请检查您的凭证配置是否正确');
       console.error('   - Account ID 是否正确');
       console.error('   - Access Key ID 是否正确');
@@ -189,51 +194,6 @@ async function listAllBuckets(): Promise<(string | undefined)[] | undefined> {
   }
 }
 
-/**
- * 获取已启用的存储桶自定义域名列表
- * @param bucketName 存储桶名称
- * @returns 自定义域名列表
- */
-export async function getBucketDomains(bucketName: string) {
-
-  interface Domain {
-    domain: string;
-    status:{
-      ssl:string;
-      ownership:string
-    }
-    enabled:boolean;
-  }
-
-  try{
-
-    if(!process.env.R2_ACCOUNT_TOKEN){
-      throw new Error('R2_ACCOUNT_TOKEN 未配置');
-    }
-
-    const response = await fetch(`https://api.cloudflare.com/client/v4/accounts/${process.env.R2_ACCOUNT_ID}/r2/buckets/${bucketName}/domains/custom`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${process.env.R2_ACCOUNT_TOKEN}`,
-      },
-    });
-
-    if(!response.ok){
-      throw new Error('获取自定义域名失败');
-    }
-
-    const data = await response.json() as {result: {domains: Domain[]}};
-    
-    // 获取已启用的自定义域名
-    const domains = data.result.domains.map(item => item.enabled ? item.domain : null).filter(item => item !== null);
-    return domains;
-  } catch (error) {
-    console.error('获取自定义域名失败:', error);
-    return [];
-  }
-}
-
-
 // 主函数
 async function main() {
   console.log('Cloudflare R2 Storage 使用示例');
@@ -264,6 +224,7 @@ async function main() {
     accountId,
     accessKeyId,
     secretAccessKey,
+    apiToken: process.env.R2_ACCOUNT_TOKEN,
   });
 
   // 运行所有示例
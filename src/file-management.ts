@@ -5,34 +5,46 @@ import {
   ListMultipartUploadsCommand,
   ListPartsCommand,
 } from '@aws-sdk/client-s3';
-import { getR2Client } from './config.js';
+import { createRequestSignal, sendCommand, type RequestOptions } from './config.js';
+import { isNotFound } from './errors.js';
+import { mapConcurrent } from './utils.js';
 
 /**
  * 删除单个对象
  * @param bucketName 存储桶名称
  * @param key 对象键
+ * @param options 可选配置（ifMatch 为条件删除：仅当对象 ETag 匹配时删除）
+ * @throws PreconditionFailedError 设置了 ifMatch 且对象已被修改时
  * @returns 删除结果
  */
-export async function deleteObject(bucketName: string, key: string) {
-  const client = getR2Client();
-
+export async function deleteObject(
+  bucketName: string,
+  key: string,
+  options?: RequestOptions & {
+    ifMatch?: string;
+  }
+) {
   const command = new DeleteObjectCommand({
     Bucket: bucketName,
     Key: key,
+    IfMatch: options?.ifMatch,
   });
 
-  return await client.send(command);
+  return await sendCommand(command, options);
 }
 
 /**
  * 批量删除对象
  * @param bucketName 存储桶名称
  * @param keys 对象键数组
+ * @param options 可选配置（取消信号、超时）
  * @returns 删除结果，包含成功和失败的对象信息
  */
-export async function deleteObjects(bucketName: string, keys: string[]) {
-  const client = getR2Client();
-
+export async function deleteObjects(
+  bucketName: string,
+  keys: string[],
+  options?: RequestOptions
+) {
   const command = new DeleteObjectsCommand({
     Bucket: bucketName,
     Delete: {
@@ -41,7 +53,7 @@ export async function deleteObjects(bucketName: string, keys: string[]) {
     },
   });
 
-  return await client.send(command);
+  return await sendCommand(command, options);
 }
 
 /**
@@ -52,15 +64,13 @@ export async function deleteObjects(bucketName: string, keys: string[]) {
  */
 export async function listMultipartUploads(
   bucketName: string,
-  options?: {
+  options?: RequestOptions & {
     prefix?: string;
     keyMarker?: string;
     uploadIdMarker?: string;
     maxUploads?: number;
   }
 ) {
-  const client = getR2Client();
-
   const command = new ListMultipartUploadsCommand({
     Bucket: bucketName,
     Prefix: options?.prefix,
@@ -69,7 +79,7 @@ export async function listMultipartUploads(
     MaxUploads: options?.maxUploads,
   });
 
-  return await client.send(command);
+  return await sendCommand(command, options);
 }
 
 /**
@@ -84,13 +94,11 @@ export async function listParts(
   bucketName: string,
   key: string,
   uploadId: string,
-  options?: {
+  options?: RequestOptions & {
     partNumberMarker?: string;
     maxParts?: number;
   }
 ) {
-  const client = getR2Client();
-
   const command = new ListPartsCommand({
     Bucket: bucketName,
     Key: key,
@@ -99,31 +107,314 @@ export async function listParts(
     MaxParts: options?.maxParts,
   });
 
-  return await client.send(command);
+  return await sendCommand(command, options);
+}
+
+/**
+ * 遍历进行中的分段上传（自动处理分页）
+ * @param bucketName 存储桶名称
+ * @param options 可选配置（前缀、取消信号）
+ * @returns 逐个产出分段上传的异步迭代器
+ */
+async function* iterateMultipartUploads(
+  bucketName: string,
+  options?: RequestOptions & {
+    prefix?: string;
+  }
+) {
+  const signal = createRequestSignal(options);
+  let keyMarker: string | undefined = undefined;
+  let uploadIdMarker: string | undefined = undefined;
+
+  do {
+    const response = await listMultipartUploads(bucketName, {
+      prefix: options?.prefix,
+      keyMarker,
+      uploadIdMarker,
+      signal,
+    });
+    yield* response.Uploads ?? [];
+
+    keyMarker = response.IsTruncated ? response.NextKeyMarker : undefined;
+    uploadIdMarker = response.IsTruncated ? response.NextUploadIdMarker : undefined;
+  } while (keyMarker);
+}
+
+/**
+ * 清空操作的进度
+ */
+export interface EmptyProgress {
+  /** 已删除（dry-run 时为将要删除）的对象数 */
+  deleted: number;
+  /** 删除失败的对象和分段上传数 */
+  failed: number;
+  /** 已中止（dry-run 时为将要中止）的分段上传数 */
+  abortedUploads: number;
+  /** 本次回调对应批次的对象键 */
+  keys: string[];
+}
+
+/**
+ * 清空操作的配置（timeout 覆盖整个清空过程）
+ */
+export interface EmptyOptions extends RequestOptions {
+  /** 只列出将要删除的对象和分段上传，不实际删除，默认 false */
+  dryRun?: boolean;
+  /** 同时进行的批量删除请求数（每批最多 1000 个对象），默认 4 */
+  concurrency?: number;
+  /** 是否同时中止进行中的分段上传，默认 true */
+  abortMultipartUploads?: boolean;
+  /** 每处理完一批后的进度回调 */
+  onProgress?: (progress: EmptyProgress) => void;
+}
+
+/**
+ * 删除失败的对象或分段上传
+ */
+export interface DeleteFailure {
+  key: string;
+  /** 中止分段上传失败时为对应的上传ID */
+  uploadId?: string;
+  code?: string;
+  message?: string;
+}
+
+/**
+ * 清空操作的结果
+ */
+export interface EmptyResult {
+  /** 已删除（dry-run 时为将要删除）的对象数 */
+  deleted: number;
+  /** 已中止（dry-run 时为将要中止）的分段上传 */
+  abortedUploads: Array<{ Key: string; UploadId: string }>;
+  /** 删除失败的对象和分段上传，部分失败不会抛出错误 */
+  failures: DeleteFailure[];
+  dryRun: boolean;
 }
 
 /**
- * 清理指定存储桶中所有未完成的分段上传
+ * 删除指定前缀下的所有对象（自动处理分页）
+ *
+ * 逐页列出对象并以每批 1000 个并发批量删除，随后中止该前缀下进行中的分段上传。
+ * 单个对象删除失败不会中断操作，失败项记录在结果的 failures 中。
  * @param bucketName 存储桶名称
- * @returns 已清理的上传列表
+ * @param prefix 对象键前缀，如 "logs/2024/"
+ * @param options 可选配置
+ * @returns 清空结果
  */
-export async function cleanupMultipartUploads(bucketName: string) {
-  const uploadsResponse = await listMultipartUploads(bucketName);
-
-  const results = [];
-
-  if (uploadsResponse.Uploads) {
-    for (const upload of uploadsResponse.Uploads) {
-      if (upload.UploadId && upload.Key) {
-        const { abortMultipartUpload } = await import('./upload.js');
-        await abortMultipartUpload(bucketName, upload.Key, upload.UploadId);
-        results.push({
-          Key: upload.Key,
-          UploadId: upload.UploadId,
+export async function emptyPrefix(
+  bucketName: string,
+  prefix: string,
+  options?: EmptyOptions
+): Promise<EmptyResult> {
+  const { iteratePages } = await import('./download.js');
+  const { abortMultipartUpload } = await import('./upload.js');
+  const signal = createRequestSignal(options);
+  const concurrency = options?.concurrency ?? 4;
+  const dryRun = options?.dryRun ?? false;
+
+  const result: EmptyResult = { deleted: 0, abortedUploads: [], failures: [], dryRun };
+  const report = (keys: string[]) =>
+    options?.onProgress?.({
+      deleted: result.deleted,
+      failed: result.failures.length,
+      abortedUploads: result.abortedUploads.length,
+      keys,
+    });
+
+  const pages = iteratePages(bucketName, { prefix: prefix || undefined, pageSize: 1000, signal });
+  await mapConcurrent(pages, concurrency, async (page) => {
+    const keys = page.objects
+      .map((object) => object.Key)
+      .filter((key): key is string => key !== undefined);
+    if (keys.length === 0) {
+      return;
+    }
+
+    if (!dryRun) {
+      const response = await deleteObjects(bucketName, keys, { signal });
+      for (const error of response.Errors ?? []) {
+        result.failures.push({
+          key: error.Key ?? '',
+          code: error.Code,
+          message: error.Message,
         });
       }
+      result.deleted += keys.length - (response.Errors?.length ?? 0);
+    } else {
+      result.deleted += keys.length;
     }
+    report(keys);
+  });
+
+  if (options?.abortMultipartUploads ?? true) {
+    const uploads = iterateMultipartUploads(bucketName, { prefix: prefix || undefined, signal });
+    await mapConcurrent(uploads, concurrency, async (upload) => {
+      if (!upload.Key || !upload.UploadId) {
+        return;
+      }
+      if (!dryRun) {
+        try {
+          await abortMultipartUpload(bucketName, upload.Key, upload.UploadId, { signal });
+        } catch (error) {
+          // 上传已完成或已被中止
+          if (isNotFound(error)) {
+            return;
+          }
+          if (signal?.aborted) {
+            throw error;
+          }
+          result.failures.push({
+            key: upload.Key,
+            uploadId: upload.UploadId,
+            code: (error as { code?: string }).code,
+            message: (error as Error).message,
+          });
+          report([upload.Key]);
+          return;
+        }
+      }
+      result.abortedUploads.push({ Key: upload.Key, UploadId: upload.UploadId });
+      report([upload.Key]);
+    });
   }
 
-  return results;
+  return result;
+}
+
+/**
+ * 删除存储桶中的所有对象并中止进行中的分段上传（存储桶本身保留）
+ * @param bucketName 存储桶名称
+ * @param options 可选配置
+ * @returns 清空结果
+ */
+export async function emptyBucket(bucketName: string, options?: EmptyOptions) {
+  return await emptyPrefix(bucketName, '', options);
+}
+
+/**
+ * 统计分段上传已上传的分段数和字节数（自动处理分页）
+ * @param bucketName 存储桶名称
+ * @param key 对象键
+ * @param uploadId 分段上传ID
+ * @param signal 取消信号
+ * @returns 分段数和总字节数
+ */
+async function countParts(
+  bucketName: string,
+  key: string,
+  uploadId: string,
+  signal: AbortSignal | undefined
+) {
+  let parts = 0;
+  let size = 0;
+  let partNumberMarker: string | undefined = undefined;
+
+  do {
+    const response = await listParts(bucketName, key, uploadId, { partNumberMarker, signal });
+    for (const part of response.Parts ?? []) {
+      parts += 1;
+      size += part.Size ?? 0;
+    }
+    partNumberMarker = response.IsTruncated ? response.NextPartNumberMarker : undefined;
+  } while (partNumberMarker);
+
+  return { parts, size };
+}
+
+/**
+ * 被清理（dry-run 时为将被清理）的分段上传
+ */
+export interface StaleMultipartUpload {
+  Key: string;
+  UploadId: string;
+  Initiated?: Date;
+  /** 已上传的分段数 */
+  parts: number;
+  /** 已上传分段的总字节数 */
+  size: number;
+}
+
+/**
+ * 清理分段上传的结果
+ */
+export interface MultipartCleanupResult {
+  uploads: StaleMultipartUpload[];
+  /** 释放（dry-run 时为可释放）的存储空间（字节） */
+  reclaimedBytes: number;
+  dryRun: boolean;
+}
+
+/**
+ * 清理指定存储桶中未完成的分段上传（自动处理分页）
+ *
+ * 未设置 olderThanHours 时会中止所有匹配的上传，包括正在进行中的上传。
+ * 清理前会通过 listParts 统计每个上传已占用的存储空间。
+ * @param bucketName 存储桶名称
+ * @param options 可选配置
+ * @returns 清理结果
+ *
+ * @example
+ * ```typescript
+ * // 先查看 24 小时前发起的上传，确认后再清理
+ * const plan = await cleanupMultipartUploads('my-bucket', { olderThanHours: 24, dryRun: true });
+ * console.log(plan.uploads.length, plan.reclaimedBytes);
+ * ```
+ */
+export async function cleanupMultipartUploads(
+  bucketName: string,
+  options?: RequestOptions & {
+    /** 只清理发起时间早于该小时数之前的上传 */
+    olderThanHours?: number;
+    /** 只清理对象键以该前缀开头的上传 */
+    prefix?: string;
+    /** 只列出将被清理的上传，不实际中止，默认 false */
+    dryRun?: boolean;
+    /** 同时处理的上传数，默认 4 */
+    concurrency?: number;
+  }
+): Promise<MultipartCleanupResult> {
+  const { abortMultipartUpload } = await import('./upload.js');
+  const signal = createRequestSignal(options);
+  const dryRun = options?.dryRun ?? false;
+  const olderThanHours = options?.olderThanHours;
+  if (olderThanHours !== undefined && !(olderThanHours >= 0)) {
+    throw new Error('olderThanHours must be a non-negative number');
+  }
+  const cutoff =
+    olderThanHours !== undefined ? Date.now() - olderThanHours * 3600 * 1000 : undefined;
+
+  const result: MultipartCleanupResult = { uploads: [], reclaimedBytes: 0, dryRun };
+  const uploads = iterateMultipartUploads(bucketName, { prefix: options?.prefix, signal });
+
+  await mapConcurrent(uploads, options?.concurrency ?? 4, async (upload) => {
+    if (!upload.Key || !upload.UploadId) {
+      return;
+    }
+    if (cutoff !== undefined && (!upload.Initiated || upload.Initiated.getTime() > cutoff)) {
+      return;
+    }
+
+    try {
+      const { parts, size } = await countParts(bucketName, upload.Key, upload.UploadId, signal);
+      if (!dryRun) {
+        await abortMultipartUpload(bucketName, upload.Key, upload.UploadId, { signal });
+      }
+      result.uploads.push({
+        Key: upload.Key,
+        UploadId: upload.UploadId,
+        Initiated: upload.Initiated,
+        parts,
+        size,
+      });
+      result.reclaimedBytes += size;
+    } catch (error) {
+      // 上传在列出之后已完成或已被中止
+      if (!isNotFound(error)) {
+        throw error;
+      }
+    }
+  });
+
+  return result;
 }
@@ -0,0 +1,105 @@
+/**
+ * 对象的 HTTP 响应头（写入时设置，读取对象时原样返回）
+ */
+export interface ObjectHeaders {
+  contentType?: string;
+  /** 如 "public, max-age=31536000, immutable" */
+  cacheControl?: string;
+  /** 如 'attachment; filename="report.pdf"' */
+  contentDisposition?: string;
+  /** 如 "gzip"、"br" */
+  contentEncoding?: string;
+  /** 如 "zh-CN" */
+  contentLanguage?: string;
+  expires?: Date;
+}
+
+/**
+ * ObjectHeaders 中的字段名
+ */
+export const OBJECT_HEADER_FIELDS = [
+  'contentType',
+  'cacheControl',
+  'contentDisposition',
+  'contentEncoding',
+  'contentLanguage',
+  'expires',
+] as const satisfies ReadonlyArray<keyof ObjectHeaders>;
+
+/**
+ * 将响应头配置转换为 SDK 命令的输入字段
+ * @param headers 响应头配置
+ * @returns ContentType、CacheControl 等字段
+ */
+export function toHeaderInput(headers: ObjectHeaders | undefined) {
+  return {
+    ContentType: headers?.contentType,
+    CacheControl: headers?.cacheControl,
+    ContentDisposition: headers?.contentDisposition,
+    ContentEncoding: headers?.contentEncoding,
+    ContentLanguage: headers?.contentLanguage,
+    Expires: headers?.expires,
+  };
+}
+
+/**
+ * 从 headObject / getObject 的结果中提取响应头
+ * @param output SDK 命令输出
+ * @returns 响应头配置
+ */
+export function fromHeaderOutput(output: {
+  ContentType?: string;
+  CacheControl?: string;
+  ContentDisposition?: string;
+  ContentEncoding?: string;
+  ContentLanguage?: string;
+  Expires?: Date;
+}): ObjectHeaders {
+  return {
+    contentType: output.ContentType,
+    cacheControl: output.CacheControl,
+    contentDisposition: output.ContentDisposition,
+    contentEncoding: output.ContentEncoding,
+    contentLanguage: output.ContentLanguage,
+    expires: output.Expires,
+  };
+}
+
+/**
+ * 从配置中挑出已设置的响应头（忽略值为 undefined 的字段）
+ * @param options 包含响应头的配置
+ * @returns 响应头配置
+ */
+export function pickHeaders(options: ObjectHeaders | undefined): ObjectHeaders {
+  const headers: Record<string, unknown> = {};
+  for (const field of OBJECT_HEADER_FIELDS) {
+    if (options?.[field] !== undefined) {
+      headers[field] = options[field];
+    }
+  }
+  return headers as ObjectHeaders;
+}
+
+/**
+ * 判断配置中是否设置了任一响应头
+ * @param headers 响应头配置
+ */
+export function hasHeaders(headers: ObjectHeaders | undefined): boolean {
+  return OBJECT_HEADER_FIELDS.some((field) => headers?.[field] !== undefined);
+}
+
+/**
+ * R2 存储类型（对应 x-amz-storage-class 请求头）
+ *
+ * STANDARD 为标准存储；STANDARD_IA 为低频访问存储，存储费用更低，但读取时按数据量收取检索费用，
+ * 且有 30 天的最短存储期限，适合很少读取的日志、备份等数据。
+ */
+export type R2StorageClass = 'STANDARD' | 'STANDARD_IA';
+
+/**
+ * 所有可用的存储类型
+ */
+export const STORAGE_CLASSES = [
+  'STANDARD',
+  'STANDARD_IA',
+] as const satisfies ReadonlyArray<R2StorageClass>;
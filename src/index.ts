@@ -19,6 +19,10 @@
  *
  * // 下载文件
  * const object = await getObject('my-bucket', 'file.txt');
+ *
+ * // 同时操作多个账户
+ * const staging = new R2({ accountId: '...', accessKeyId: '...', secretAccessKey: '...' });
+ * await staging.putObject('my-bucket', 'file.txt', 'Hello, staging!');
  * ```
  */
 
@@ -27,9 +31,74 @@ export {
   createR2Client,
   initR2Client,
   getR2Client,
+  getR2Context,
+  getR2Endpoint,
+  runWithR2Context,
+  sendCommand,
+  withRetry,
+  createRequestSignal,
+  isRetryableError,
   type R2Config,
+  type R2Jurisdiction,
+  type RetryPolicy,
+  type RequestOptions,
+  type R2Context,
 } from './config.js';
 
+// 多账户实例
+export { R2, registerR2Account, getR2Account } from './r2.js';
+
+// 错误类型
+export {
+  R2Error,
+  NotFoundError,
+  AccessDeniedError,
+  InvalidCredentialsError,
+  PreconditionFailedError,
+  NotModifiedError,
+  ConflictError,
+  RateLimitedError,
+  ServerError,
+  AbortedError,
+  TimeoutError,
+  IntegrityError,
+  isR2Error,
+  isNotFound,
+  isAccessDenied,
+  isInvalidCredentials,
+  isPreconditionFailed,
+  isNotModified,
+  isConflict,
+  isRateLimited,
+  isServerError,
+  isAborted,
+  isTimeout,
+  isNetworkError,
+  isIntegrityError,
+  toR2Error,
+  createHttpError,
+  type R2ErrorContext,
+  type R2ErrorOptions,
+} from './errors.js';
+
+// 响应头与存储类型
+export { STORAGE_CLASSES, type ObjectHeaders, type R2StorageClass } from './headers.js';
+
+// 条件请求
+export { type ObjectConditions } from './conditions.js';
+
+// 完整性校验
+export {
+  createChecksumHasher,
+  computeChecksum,
+  computeBlobChecksum,
+  computeMultipartETag,
+  getChecksumMetadataKey,
+  CHECKSUM_METADATA_PREFIX,
+  type ChecksumAlgorithm,
+  type ChecksumHasher,
+} from './checksum.js';
+
 // 文件上传功能
 export {
   putObject,
@@ -39,8 +108,29 @@ export {
   completeMultipartUpload,
   abortMultipartUpload,
   copyObject,
+  copyLargeObject,
+  updateObjectMetadata,
+  setStorageClass,
+  encodeCopySource,
+  upload,
+  uploadFile,
+  type CopyOptions,
+  type CopyResult,
+  type ObjectMetadataPatch,
+  type UploadSource,
+  type UploadOptions,
+  type UploadProgress,
+  type UploadResult,
 } from './upload.js';
 
+// 可续传上传
+export {
+  resumableUpload,
+  readUploadCheckpoint,
+  getDefaultCheckpointPath,
+  type UploadCheckpoint,
+} from './resumable-upload.js';
+
 // 文件下载/访问功能
 export {
   getObject,
@@ -48,8 +138,30 @@ export {
   listObjects,
   listObjectsV2,
   listAllObjects,
+  iteratePages,
+  iterateObjects,
+  listDirectory,
+  downloadToFile,
+  type ByteRange,
+  type ListIterationOptions,
+  type ObjectListPage,
+  type DirectoryListing,
+  type DownloadOptions,
+  type DownloadProgress,
+  type DownloadResult,
 } from './download.js';
 
+// 预签名 URL
+export {
+  presignGetObject,
+  presignHeadObject,
+  presignPutObject,
+  presignDeleteObject,
+  presignUploadPart,
+  presignUploadParts,
+  type PresignOptions,
+} from './presign.js';
+
 // 文件管理功能
 export {
   deleteObject,
@@ -57,8 +169,95 @@ export {
   listMultipartUploads,
   listParts,
   cleanupMultipartUploads,
+  emptyPrefix,
+  emptyBucket,
+  type StaleMultipartUpload,
+  type MultipartCleanupResult,
+  type EmptyOptions,
+  type EmptyProgress,
+  type EmptyResult,
+  type DeleteFailure,
 } from './file-management.js';
 
+// 前缀（文件夹）操作
+export {
+  copyPrefix,
+  movePrefix,
+  deletePrefix,
+  type PrefixOperationOptions,
+  type PrefixOperationProgress,
+  type PrefixOperationResult,
+} from './prefix.js';
+
+// 目录同步
+export {
+  syncDirectory,
+  applySyncPlan,
+  SYNC_MTIME_METADATA_KEY,
+  type SyncDirection,
+  type SyncAction,
+  type SyncOptions,
+  type ApplySyncPlanOptions,
+  type SyncResult,
+} from './sync.js';
+
+// 存储用量统计
+export {
+  computeUsage,
+  DEFAULT_AGE_BUCKETS,
+  type UsageOptions,
+  type UsageReport,
+  type UsageStats,
+  type PrefixUsage,
+  type AgeUsage,
+  type LargeObject,
+} from './usage.js';
+
+// 声明式存储桶配置
+export {
+  planBucketConfig,
+  applyBucketPlan,
+  applyBucketConfig,
+  exportBucketConfig,
+  parseBucketConfig,
+  loadBucketConfig,
+  stringifyBucketConfig,
+  saveBucketConfig,
+  type BucketSpec,
+  type BucketSpecDomain,
+  type BucketConfigFile,
+  type BucketChange,
+  type ApplyBucketPlanOptions,
+  type ApplyBucketPlanResult,
+} from './bucket-spec.js';
+
+// Cloudflare REST API
+export {
+  cloudflareApiRequest,
+  DEFAULT_CLOUDFLARE_API_BASE_URL,
+  type CloudflareApiMessage,
+  type CloudflareApiResponse,
+  type CloudflareApiRequestOptions,
+} from './cloudflare-api.js';
+
+// 存储桶域名
+export {
+  listCustomDomains,
+  getCustomDomain,
+  addCustomDomain,
+  updateCustomDomain,
+  removeCustomDomain,
+  getManagedDomain,
+  setManagedDomain,
+  getPublicBaseUrl,
+  type CustomDomain,
+  type CustomDomainSettings,
+  type DomainOwnershipStatus,
+  type DomainSslStatus,
+  type ManagedDomain,
+  type MinTlsVersion,
+} from './domains.js';
+
 // 存储桶操作
 export {
   listBuckets,
@@ -67,17 +266,44 @@ export {
   headBucket,
   deleteBucketAndCleanup,
   isBucketEmpty,
+  getBucketInfo,
+  validateBucketName,
+  LOCATION_HINTS,
+  type R2LocationHint,
+  type BucketInfo,
+  type BucketListEntry,
+  type CreateBucketOptions,
+  type CreateBucketResult,
 } from './bucket.js';
 
 // 存储桶配置
 export {
   getBucketCors,
   putBucketCors,
+  deleteBucketCors,
+  addCorsRule,
+  replaceCorsRule,
+  removeCorsRule,
+  validateCorsRules,
   getBucketLifecycleConfiguration,
   putBucketLifecycleConfiguration,
+  deleteBucketLifecycle,
+  upsertLifecycleRule,
+  removeLifecycleRule,
+  validateLifecycleRules,
   getBucketLocation,
   getBucketEncryption,
   putBucketEncryption,
+  listNotificationRules,
+  createNotificationRules,
+  deleteNotificationRules,
+  ensureNotificationRules,
   type CORSRule,
+  type CORSMethod,
+  type CORSRuleMatcher,
   type LifecycleRule,
+  type NotificationEventType,
+  type NotificationRule,
+  type NotificationRuleInput,
+  type EnsureNotificationRulesResult,
 } from './bucket-config.js';
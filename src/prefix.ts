@@ -0,0 +1,260 @@
+import type { _Object } from '@aws-sdk/client-s3';
+import { createRequestSignal, type RequestOptions } from './config.js';
+import { R2Error } from './errors.js';
+import type { R2StorageClass } from './headers.js';
+import { iterateObjects, iteratePages, headObject } from './download.js';
+import { deleteObject, deleteObjects } from './file-management.js';
+import { copyLargeObject, copyObject, DEFAULT_COPY_THRESHOLD } from './upload.js';
+import { mapConcurrent } from './utils.js';
+
+/**
+ * 前缀（“文件夹”）操作的进度
+ */
+export interface PrefixOperationProgress {
+  /** 已成功处理的对象数 */
+  succeeded: number;
+  /** 处理失败的对象数 */
+  failed: number;
+  /** 刚处理完的对象键 */
+  key: string;
+}
+
+/**
+ * 前缀操作的配置（timeout 覆盖整个操作）
+ */
+export interface PrefixOperationOptions extends RequestOptions {
+  /** 同时处理的对象数（删除时为同时进行的批量删除请求数），默认 8 */
+  concurrency?: number;
+  /** 每处理完一个对象后的进度回调 */
+  onProgress?: (progress: PrefixOperationProgress) => void;
+}
+
+/**
+ * 前缀操作的结果，单个对象失败不会中断操作
+ */
+export interface PrefixOperationResult {
+  succeeded: Array<{ key: string; destinationKey?: string; size?: number }>;
+  failed: Array<{ key: string; destinationKey?: string; error: unknown }>;
+}
+
+const DEFAULT_PREFIX_CONCURRENCY = 8;
+
+/**
+ * 检查同一存储桶内的源前缀与目标前缀是否重叠
+ *
+ * 目标在源之内会遍历到刚复制的对象；源在目标之内会把尚未处理的源对象复制到其他源对象上，
+ * 如从 "a/b/" 移动到 "a/" 时 "a/b/b/x" 会覆盖 "a/b/x"。
+ * @param sourceBucket 源存储桶名称
+ * @param sourcePrefix 源前缀
+ * @param destinationBucket 目标存储桶名称
+ * @param destinationPrefix 目标前缀
+ */
+function assertDisjointPrefixes(
+  sourceBucket: string,
+  sourcePrefix: string,
+  destinationBucket: string,
+  destinationPrefix: string
+) {
+  if (
+    sourceBucket === destinationBucket &&
+    (destinationPrefix.startsWith(sourcePrefix) || sourcePrefix.startsWith(destinationPrefix))
+  ) {
+    throw new Error(
+      `Source prefix "${sourcePrefix}" and destination prefix "${destinationPrefix}" must not overlap in the same bucket`
+    );
+  }
+}
+
+/**
+ * 逐个复制前缀下的对象，并在每个对象复制成功后执行 afterCopy
+ * @param sourceBucket 源存储桶名称
+ * @param sourcePrefix 源前缀
+ * @param destinationBucket 目标存储桶名称
+ * @param destinationPrefix 目标前缀
+ * @param options 可选配置
+ * @param afterCopy 复制成功后对该对象执行的操作，抛出错误时该对象记为失败
+ * @returns 操作结果
+ */
+async function transferPrefix(
+  sourceBucket: string,
+  sourcePrefix: string,
+  destinationBucket: string,
+  destinationPrefix: string,
+  options: PrefixOperationOptions | undefined,
+  afterCopy?: (
+    object: _Object & { Key: string },
+    destinationKey: string,
+    signal?: AbortSignal
+  ) => Promise<void>
+): Promise<PrefixOperationResult> {
+  assertDisjointPrefixes(sourceBucket, sourcePrefix, destinationBucket, destinationPrefix);
+  const signal = createRequestSignal(options);
+  const result: PrefixOperationResult = { succeeded: [], failed: [] };
+  const report = (key: string) =>
+    options?.onProgress?.({
+      succeeded: result.succeeded.length,
+      failed: result.failed.length,
+      key,
+    });
+
+  const objects = iterateObjects(sourceBucket, { prefix: sourcePrefix || undefined, signal });
+  await mapConcurrent(objects, options?.concurrency ?? DEFAULT_PREFIX_CONCURRENCY, async (object) => {
+    if (!object.Key) {
+      return;
+    }
+    const key = object.Key;
+    const destinationKey = destinationPrefix + key.slice(sourcePrefix.length);
+
+    try {
+      if ((object.Size ?? 0) > DEFAULT_COPY_THRESHOLD) {
+        await copyLargeObject(sourceBucket, key, destinationBucket, destinationKey, { signal });
+      } else {
+        await copyObject(sourceBucket, key, destinationBucket, destinationKey, {
+          // 只复制列出时的版本，避免复制过程中源对象被覆盖
+          sourceConditions: object.ETag ? { ifMatch: object.ETag } : undefined,
+          // 单次复制不指定存储类型时会改用存储桶的默认存储类型
+          storageClass: object.StorageClass as R2StorageClass | undefined,
+          signal,
+        });
+      }
+      await afterCopy?.({ ...object, Key: key }, destinationKey, signal);
+      result.succeeded.push({ key, destinationKey, size: object.Size });
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      result.failed.push({ key, destinationKey, error });
+    }
+    report(key);
+  });
+
+  return result;
+}
+
+/**
+ * 复制前缀下的所有对象（复制“文件夹”）
+ *
+ * 对象键中的源前缀会被替换为目标前缀，如 "photos/2024/a.jpg" 从 "photos/" 复制到 "archive/photos/"
+ * 后为 "archive/photos/2024/a.jpg"。可在同一存储桶内或跨存储桶复制。
+ * @param sourceBucket 源存储桶名称
+ * @param sourcePrefix 源前缀，如 "photos/"
+ * @param destinationBucket 目标存储桶名称
+ * @param destinationPrefix 目标前缀，如 "archive/photos/"
+ * @param options 可选配置
+ * @returns 每个对象的成功与失败情况
+ */
+export async function copyPrefix(
+  sourceBucket: string,
+  sourcePrefix: string,
+  destinationBucket: string,
+  destinationPrefix: string,
+  options?: PrefixOperationOptions
+): Promise<PrefixOperationResult> {
+  return await transferPrefix(
+    sourceBucket,
+    sourcePrefix,
+    destinationBucket,
+    destinationPrefix,
+    options
+  );
+}
+
+/**
+ * 移动前缀下的所有对象（重命名“文件夹”）
+ *
+ * 每个对象先复制到目标位置，核对目标对象的大小（以及非分段对象的 ETag）与源对象一致后，
+ * 才删除源对象；复制或核对失败的对象保留在原位置。删除以列出时的 ETag 为条件，
+ * 源对象在移动过程中被覆盖时保留新内容并记为失败。同一存储桶内的源前缀与目标前缀不能重叠。
+ * @param sourceBucket 源存储桶名称
+ * @param sourcePrefix 源前缀，如 "drafts/"
+ * @param destinationBucket 目标存储桶名称
+ * @param destinationPrefix 目标前缀，如 "published/"
+ * @param options 可选配置
+ * @returns 每个对象的成功与失败情况
+ */
+export async function movePrefix(
+  sourceBucket: string,
+  sourcePrefix: string,
+  destinationBucket: string,
+  destinationPrefix: string,
+  options?: PrefixOperationOptions
+): Promise<PrefixOperationResult> {
+  return await transferPrefix(
+    sourceBucket,
+    sourcePrefix,
+    destinationBucket,
+    destinationPrefix,
+    options,
+    async (object, destinationKey, signal) => {
+      const copied = await headObject(destinationBucket, destinationKey, { signal });
+      const sizeMatches = copied.ContentLength === object.Size;
+      // 分段上传对象（ETag 带 "-N" 后缀）复制后 ETag 可能改变，只核对大小
+      const etagMatches =
+        !object.ETag || object.ETag.includes('-') || copied.ETag === object.ETag;
+      if (!sizeMatches || !etagMatches) {
+        throw new R2Error(`Copy of ${object.Key} could not be verified; source was kept`, {
+          bucket: destinationBucket,
+          key: destinationKey,
+        });
+      }
+      await deleteObject(sourceBucket, object.Key, { ifMatch: object.ETag, signal });
+    }
+  );
+}
+
+/**
+ * 删除前缀下的所有对象（删除“文件夹”）
+ *
+ * 逐页列出对象并以每批 1000 个批量删除，结果中列出每个对象的删除情况。
+ * 如需同时中止进行中的分段上传或只统计数量，请使用 emptyPrefix。
+ * @param bucketName 存储桶名称
+ * @param prefix 前缀，如 "tmp/"
+ * @param options 可选配置
+ * @returns 每个对象的成功与失败情况
+ */
+export async function deletePrefix(
+  bucketName: string,
+  prefix: string,
+  options?: PrefixOperationOptions
+): Promise<PrefixOperationResult> {
+  const signal = createRequestSignal(options);
+  const result: PrefixOperationResult = { succeeded: [], failed: [] };
+
+  const pages = iteratePages(bucketName, { prefix: prefix || undefined, pageSize: 1000, signal });
+  await mapConcurrent(pages, options?.concurrency ?? DEFAULT_PREFIX_CONCURRENCY, async (page) => {
+    const objects = page.objects.filter((object) => object.Key !== undefined);
+    if (objects.length === 0) {
+      return;
+    }
+
+    const response = await deleteObjects(
+      bucketName,
+      objects.map((object) => object.Key!),
+      { signal }
+    );
+    const errors = new Map((response.Errors ?? []).map((error) => [error.Key, error]));
+    for (const object of objects) {
+      const key = object.Key!;
+      const error = errors.get(key);
+      if (error) {
+        result.failed.push({
+          key,
+          error: new R2Error(error.Message ?? `Failed to delete ${key}`, {
+            code: error.Code,
+            bucket: bucketName,
+            key,
+          }),
+        });
+      } else {
+        result.succeeded.push({ key, size: object.Size });
+      }
+      options?.onProgress?.({
+        succeeded: result.succeeded.length,
+        failed: result.failed.length,
+        key,
+      });
+    }
+  });
+
+  return result;
+}
@@ -0,0 +1,206 @@
+import {
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  DeleteObjectCommand,
+  UploadPartCommand,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { getR2Client } from './config.js';
+
+/**
+ * 预签名 URL 默认有效期（秒）
+ */
+const DEFAULT_EXPIRES_IN = 3600;
+
+/**
+ * 预签名 URL 最长有效期（7 天）
+ */
+const MAX_EXPIRES_IN = 7 * 24 * 3600;
+
+/**
+ * 预签名通用配置
+ */
+export interface PresignOptions {
+  /** 有效期（秒），默认 3600，最长 604800 */
+  expiresIn?: number;
+}
+
+/**
+ * 校验并返回有效期
+ * @param expiresIn 有效期（秒）
+ * @returns 有效期（秒）
+ */
+function resolveExpiresIn(expiresIn: number = DEFAULT_EXPIRES_IN): number {
+  if (!Number.isInteger(expiresIn) || expiresIn <= 0 || expiresIn > MAX_EXPIRES_IN) {
+    throw new Error(`expiresIn must be an integer between 1 and ${MAX_EXPIRES_IN} seconds`);
+  }
+  return expiresIn;
+}
+
+/**
+ * 生成下载对象的预签名 URL
+ * @param bucketName 存储桶名称
+ * @param key 对象键
+ * @param options 可选配置（可覆盖响应头，如以附件形式下载）
+ * @returns 预签名 URL
+ */
+export async function presignGetObject(
+  bucketName: string,
+  key: string,
+  options?: PresignOptions & {
+    responseContentDisposition?: string; // 如: 'attachment; filename="report.pdf"'
+    responseContentType?: string;
+    responseCacheControl?: string;
+  }
+): Promise<string> {
+  const client = getR2Client();
+
+  const command = new GetObjectCommand({
+    Bucket: bucketName,
+    Key: key,
+    ResponseContentDisposition: options?.responseContentDisposition,
+    ResponseContentType: options?.responseContentType,
+    ResponseCacheControl: options?.responseCacheControl,
+  });
+
+  return await getSignedUrl(client, command, {
+    expiresIn: resolveExpiresIn(options?.expiresIn),
+  });
+}
+
+/**
+ * 生成获取对象元数据的预签名 URL
+ * @param bucketName 存储桶名称
+ * @param key 对象键
+ * @param options 可选配置
+ * @returns 预签名 URL
+ */
+export async function presignHeadObject(
+  bucketName: string,
+  key: string,
+  options?: PresignOptions
+): Promise<string> {
+  const client = getR2Client();
+
+  const command = new HeadObjectCommand({
+    Bucket: bucketName,
+    Key: key,
+  });
+
+  return await getSignedUrl(client, command, {
+    expiresIn: resolveExpiresIn(options?.expiresIn),
+  });
+}
+
+/**
+ * 生成上传对象的预签名 URL
+ * 注意：设置 contentType 后，客户端上传时必须携带相同的 Content-Type 请求头
+ * @param bucketName 存储桶名称
+ * @param key 对象键
+ * @param options 可选配置
+ * @returns 预签名 URL
+ */
+export async function presignPutObject(
+  bucketName: string,
+  key: string,
+  options?: PresignOptions & {
+    contentType?: string;
+    contentDisposition?: string;
+  }
+): Promise<string> {
+  const client = getR2Client();
+
+  const command = new PutObjectCommand({
+    Bucket: bucketName,
+    Key: key,
+    ContentType: options?.contentType,
+    ContentDisposition: options?.contentDisposition,
+  });
+
+  return await getSignedUrl(client, command, {
+    expiresIn: resolveExpiresIn(options?.expiresIn),
+    // 将 Content-Type 纳入签名，限制客户端上传的内容类型
+    signableHeaders: options?.contentType ? new Set(['content-type']) : undefined,
+  });
+}
+
+/**
+ * 生成删除对象的预签名 URL
+ * @param bucketName 存储桶名称
+ * @param key 对象键
+ * @param options 可选配置
+ * @returns 预签名 URL
+ */
+export async function presignDeleteObject(
+  bucketName: string,
+  key: string,
+  options?: PresignOptions
+): Promise<string> {
+  const client = getR2Client();
+
+  const command = new DeleteObjectCommand({
+    Bucket: bucketName,
+    Key: key,
+  });
+
+  return await getSignedUrl(client, command, {
+    expiresIn: resolveExpiresIn(options?.expiresIn),
+  });
+}
+
+/**
+ * 生成上传分段的预签名 URL
+ * 分段上传由服务端通过 createMultipartUpload 创建，客户端使用该 URL 以 PUT 上传分段，
+ * 并将响应头中的 ETag 交回服务端调用 completeMultipartUpload
+ * @param bucketName 存储桶名称
+ * @param key 对象键
+ * @param uploadId 分段上传ID
+ * @param partNumber 分段编号 (从1开始)
+ * @param options 可选配置
+ * @returns 预签名 URL
+ */
+export async function presignUploadPart(
+  bucketName: string,
+  key: string,
+  uploadId: string,
+  partNumber: number,
+  options?: PresignOptions
+): Promise<string> {
+  const client = getR2Client();
+
+  const command = new UploadPartCommand({
+    Bucket: bucketName,
+    Key: key,
+    UploadId: uploadId,
+    PartNumber: partNumber,
+  });
+
+  return await getSignedUrl(client, command, {
+    expiresIn: resolveExpiresIn(options?.expiresIn),
+  });
+}
+
+/**
+ * 批量生成一次分段上传中多个分段的预签名 URL
+ * @param bucketName 存储桶名称
+ * @param key 对象键
+ * @param uploadId 分段上传ID
+ * @param partCount 分段数量（分段编号为 1 到 partCount）
+ * @param options 可选配置
+ * @returns 分段编号与预签名 URL 列表
+ */
+export async function presignUploadParts(
+  bucketName: string,
+  key: string,
+  uploadId: string,
+  partCount: number,
+  options?: PresignOptions
+): Promise<Array<{ partNumber: number; url: string }>> {
+  return await Promise.all(
+    Array.from({ length: partCount }, async (_, i) => ({
+      partNumber: i + 1,
+      url: await presignUploadPart(bucketName, key, uploadId, i + 1, options),
+    }))
+  );
+}
@@ -0,0 +1,292 @@
+import type { S3Client } from '@aws-sdk/client-s3';
+import {
+  createR2Client,
+  runWithR2Context,
+  type R2Config,
+  type R2Context,
+} from './config.js';
+import {
+  putObject,
+  createMultipartUpload,
+  uploadPart,
+  uploadPartCopy,
+  completeMultipartUpload,
+  abortMultipartUpload,
+  copyObject,
+  copyLargeObject,
+  updateObjectMetadata,
+  setStorageClass,
+  upload,
+  uploadFile,
+} from './upload.js';
+import { resumableUpload } from './resumable-upload.js';
+import {
+  getObject,
+  headObject,
+  listObjects,
+  listObjectsV2,
+  listAllObjects,
+  iteratePages,
+  iterateObjects,
+  listDirectory,
+  downloadToFile,
+} from './download.js';
+import {
+  presignGetObject,
+  presignHeadObject,
+  presignPutObject,
+  presignDeleteObject,
+  presignUploadPart,
+  presignUploadParts,
+} from './presign.js';
+import {
+  deleteObject,
+  deleteObjects,
+  listMultipartUploads,
+  listParts,
+  cleanupMultipartUploads,
+  emptyPrefix,
+  emptyBucket,
+} from './file-management.js';
+import { copyPrefix, movePrefix, deletePrefix } from './prefix.js';
+import { applySyncPlan, syncDirectory } from './sync.js';
+import { computeUsage } from './usage.js';
+import {
+  planBucketConfig,
+  applyBucketPlan,
+  applyBucketConfig,
+  exportBucketConfig,
+} from './bucket-spec.js';
+import {
+  listCustomDomains,
+  getCustomDomain,
+  addCustomDomain,
+  updateCustomDomain,
+  removeCustomDomain,
+  getManagedDomain,
+  setManagedDomain,
+  getPublicBaseUrl,
+} from './domains.js';
+import {
+  listBuckets,
+  createBucket,
+  deleteBucket,
+  headBucket,
+  deleteBucketAndCleanup,
+  isBucketEmpty,
+  getBucketInfo,
+} from './bucket.js';
+import {
+  getBucketCors,
+  putBucketCors,
+  deleteBucketCors,
+  addCorsRule,
+  replaceCorsRule,
+  removeCorsRule,
+  getBucketLifecycleConfiguration,
+  putBucketLifecycleConfiguration,
+  deleteBucketLifecycle,
+  upsertLifecycleRule,
+  removeLifecycleRule,
+  getBucketLocation,
+  getBucketEncryption,
+  putBucketEncryption,
+  listNotificationRules,
+  createNotificationRules,
+  deleteNotificationRules,
+  ensureNotificationRules,
+} from './bucket-config.js';
+
+/**
+ * R2 实例上可用的操作（与模块级函数一一对应）
+ */
+const operations = {
+  putObject,
+  createMultipartUpload,
+  uploadPart,
+  uploadPartCopy,
+  completeMultipartUpload,
+  abortMultipartUpload,
+  copyObject,
+  copyLargeObject,
+  updateObjectMetadata,
+  setStorageClass,
+  upload,
+  uploadFile,
+  resumableUpload,
+  getObject,
+  headObject,
+  listObjects,
+  listObjectsV2,
+  listAllObjects,
+  iteratePages,
+  iterateObjects,
+  listDirectory,
+  downloadToFile,
+  presignGetObject,
+  presignHeadObject,
+  presignPutObject,
+  presignDeleteObject,
+  presignUploadPart,
+  presignUploadParts,
+  deleteObject,
+  deleteObjects,
+  listMultipartUploads,
+  listParts,
+  cleanupMultipartUploads,
+  emptyPrefix,
+  emptyBucket,
+  copyPrefix,
+  movePrefix,
+  deletePrefix,
+  syncDirectory,
+  applySyncPlan,
+  computeUsage,
+  listCustomDomains,
+  getCustomDomain,
+  addCustomDomain,
+  updateCustomDomain,
+  removeCustomDomain,
+  getManagedDomain,
+  setManagedDomain,
+  getPublicBaseUrl,
+  listBuckets,
+  createBucket,
+  deleteBucket,
+  headBucket,
+  deleteBucketAndCleanup,
+  isBucketEmpty,
+  getBucketInfo,
+  getBucketCors,
+  putBucketCors,
+  deleteBucketCors,
+  addCorsRule,
+  replaceCorsRule,
+  removeCorsRule,
+  getBucketLifecycleConfiguration,
+  putBucketLifecycleConfiguration,
+  deleteBucketLifecycle,
+  upsertLifecycleRule,
+  removeLifecycleRule,
+  getBucketLocation,
+  getBucketEncryption,
+  putBucketEncryption,
+  listNotificationRules,
+  createNotificationRules,
+  deleteNotificationRules,
+  ensureNotificationRules,
+  planBucketConfig,
+  applyBucketPlan,
+  applyBucketConfig,
+  exportBucketConfig,
+};
+
+type R2Operations = typeof operations;
+
+export interface R2 extends R2Operations {}
+
+/**
+ * R2 账户实例
+ *
+ * 每个实例持有独立的客户端和配置，可在同一进程中同时操作多个账户或多组凭证。
+ * 实例方法与模块级函数同名同参，模块级函数相当于默认实例（initR2Client）上的操作。
+ *
+ * @example
+ * ```typescript
+ * const staging = new R2({ accountId: 'staging-id', accessKeyId: '...', secretAccessKey: '...' });
+ * const production = new R2({ accountId: 'prod-id', accessKeyId: '...', secretAccessKey: '...' });
+ *
+ * const object = await staging.getObject('assets', 'logo.png');
+ * await production.putObject('assets', 'logo.png', await object.Body!.transformToByteArray());
+ * ```
+ */
+export class R2 {
+  readonly client: S3Client;
+  readonly config: R2Config;
+
+  /**
+   * @param config R2 配置对象
+   * @param client 可选，复用已创建的客户端（默认根据配置创建）
+   */
+  constructor(config: R2Config, client?: S3Client) {
+    this.config = config;
+    this.client = client ?? createR2Client(config);
+  }
+
+  /**
+   * 以当前实例为上下文执行函数，函数内调用的模块级操作都使用当前实例的客户端
+   * @param fn 要执行的函数
+   * @returns 函数返回值
+   */
+  run<T>(fn: () => T): T {
+    const context: R2Context = { client: this.client, config: this.config };
+    return runWithR2Context(context, fn);
+  }
+}
+
+/**
+ * 包装异步迭代器，使每次迭代都在实例上下文中执行
+ * （异步生成器的函数体在调用 next() 时才运行，仅包装创建调用不够）
+ * @param instance R2 实例
+ * @param iterator 原始异步迭代器
+ * @returns 绑定到实例上下文的异步迭代器
+ */
+function bindAsyncIterator<T>(instance: R2, iterator: AsyncGenerator<T>): AsyncGenerator<T> {
+  const bound = Object.create(iterator) as AsyncGenerator<T>;
+  bound.next = (...args) => instance.run(() => iterator.next(...args));
+  bound.return = (value) => instance.run(() => iterator.return(value));
+  bound.throw = (error) => instance.run(() => iterator.throw(error));
+  bound[Symbol.asyncIterator] = () => bound;
+  return bound;
+}
+
+function isAsyncGenerator(value: unknown): value is AsyncGenerator<unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as AsyncGenerator<unknown>).next === 'function' &&
+    typeof (value as AsyncGenerator<unknown>)[Symbol.asyncIterator] === 'function'
+  );
+}
+
+for (const [name, operation] of Object.entries(operations)) {
+  Object.defineProperty(R2.prototype, name, {
+    value(this: R2, ...args: unknown[]) {
+      const result = this.run(() => (operation as (...args: unknown[]) => unknown)(...args));
+      return isAsyncGenerator(result) ? bindAsyncIterator(this, result) : result;
+    },
+    writable: true,
+    configurable: true,
+  });
+}
+
+/**
+ * 已注册的命名账户
+ */
+const accounts = new Map<string, R2>();
+
+/**
+ * 注册命名账户
+ * @param name 账户名称，如 'staging'、'production'
+ * @param config R2 配置对象
+ * @returns 该账户的 R2 实例
+ */
+export function registerR2Account(name: string, config: R2Config): R2 {
+  const instance = new R2(config);
+  accounts.set(name, instance);
+  return instance;
+}
+
+/**
+ * 获取已注册的命名账户
+ * @param name 账户名称
+ * @throws 如果账户未注册会抛出错误
+ * @returns 该账户的 R2 实例
+ */
+export function getR2Account(name: string): R2 {
+  const instance = accounts.get(name);
+  if (!instance) {
+    throw new Error(`R2 account "${name}" is not registered. Call registerR2Account() first.`);
+  }
+  return instance;
+}
@@ -0,0 +1,283 @@
+import { createHash } from 'node:crypto';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import {
+  computeBlobChecksum,
+  getChecksumMetadataKey,
+  type ChecksumAlgorithm,
+} from './checksum.js';
+import { createRequestSignal } from './config.js';
+import { isNotFound, R2Error } from './errors.js';
+import { pickHeaders } from './headers.js';
+import { listParts } from './file-management.js';
+import {
+  abortMultipartUpload,
+  completeMultipartUpload,
+  createMultipartUpload,
+  pickPartChecksums,
+  resolvePartSize,
+  upload,
+  uploadPart,
+  DEFAULT_CONCURRENCY,
+  DEFAULT_MULTIPART_THRESHOLD,
+  DEFAULT_PART_SIZE,
+  type CompletedPart,
+  type UploadOptions,
+  type UploadResult,
+} from './upload.js';
+import { mapConcurrent } from './utils.js';
+
+/**
+ * 续传检查点，记录分段上传的进度
+ */
+export interface UploadCheckpoint {
+  version: 1;
+  bucket: string;
+  key: string;
+  uploadId: string;
+  partSize: number;
+  /** 创建上传时使用的校验算法，算法变化后检查点失效 */
+  checksum?: ChecksumAlgorithm;
+  /** 文件指纹，文件变化后检查点失效 */
+  file: {
+    path: string;
+    size: number;
+    lastModified: number;
+  };
+  /** 已完成的分段（包含分段的校验值） */
+  parts: CompletedPart[];
+}
+
+/**
+ * 获取默认的检查点文件路径（系统临时目录下，由存储桶、对象键和文件路径决定）
+ * @param bucketName 存储桶名称
+ * @param key 对象键
+ * @param filePath 本地文件路径
+ * @returns 检查点文件路径
+ */
+export function getDefaultCheckpointPath(
+  bucketName: string,
+  key: string,
+  filePath: string
+): string {
+  const hash = createHash('sha1').update(`${bucketName}\n${key}\n${filePath}`).digest('hex');
+  return join(tmpdir(), `r2-upload-${hash}.json`);
+}
+
+/**
+ * 读取检查点文件
+ * @param checkpointPath 检查点文件路径
+ * @returns 检查点，不存在或无法解析时返回 null
+ */
+export async function readUploadCheckpoint(
+  checkpointPath: string
+): Promise<UploadCheckpoint | null> {
+  const file = Bun.file(checkpointPath);
+  if (!(await file.exists())) {
+    return null;
+  }
+  try {
+    const checkpoint = (await file.json()) as UploadCheckpoint;
+    return checkpoint.version === 1 ? checkpoint : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 列出服务端已保存的全部分段（自动处理分页）
+ * @param bucketName 存储桶名称
+ * @param key 对象键
+ * @param uploadId 分段上传ID
+ * @param signal 取消信号
+ * @returns 分段编号到分段信息的映射
+ */
+async function listAllParts(
+  bucketName: string,
+  key: string,
+  uploadId: string,
+  signal: AbortSignal | undefined
+) {
+  const parts = new Map<number, CompletedPart & { Size: number }>();
+  let partNumberMarker: string | undefined = undefined;
+
+  do {
+    const response = await listParts(bucketName, key, uploadId, { partNumberMarker, signal });
+    for (const part of response.Parts ?? []) {
+      if (part.PartNumber !== undefined && part.ETag) {
+        parts.set(part.PartNumber, {
+          PartNumber: part.PartNumber,
+          ETag: part.ETag,
+          Size: part.Size ?? 0,
+          ...pickPartChecksums(part),
+        });
+      }
+    }
+    partNumberMarker = response.IsTruncated ? response.NextPartNumberMarker : undefined;
+  } while (partNumberMarker);
+
+  return parts;
+}
+
+/**
+ * 可续传的分段上传
+ *
+ * 上传进度写入本地检查点文件。中断后再次调用时，会通过 listParts 核对服务端已保存的分段，
+ * 只上传缺失的分段再完成上传。失败时不会中止分段上传，以便之后续传；
+ * 文件内容变化（大小或修改时间不同）时会中止旧的上传并重新开始。
+ * @param bucketName 存储桶名称
+ * @param key 对象键
+ * @param filePath 本地文件路径
+ * @param options 可选配置
+ * @returns 上传结果
+ */
+export async function resumableUpload(
+  bucketName: string,
+  key: string,
+  filePath: string,
+  options?: UploadOptions
+): Promise<UploadResult> {
+  const file = Bun.file(filePath);
+  if (!(await file.exists())) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  const threshold = options?.multipartThreshold ?? DEFAULT_MULTIPART_THRESHOLD;
+  if (file.size <= threshold) {
+    return await upload(bucketName, key, file, { ...options, resumable: false });
+  }
+
+  const signal = createRequestSignal(options);
+  const checkpointPath =
+    options?.checkpointPath ?? getDefaultCheckpointPath(bucketName, key, filePath);
+  const fingerprint = { path: resolve(filePath), size: file.size, lastModified: file.lastModified };
+
+  let checkpoint = await readUploadCheckpoint(checkpointPath);
+  let serverParts = new Map<number, CompletedPart & { Size: number }>();
+
+  if (checkpoint) {
+    const matches =
+      checkpoint.bucket === bucketName &&
+      checkpoint.key === key &&
+      checkpoint.checksum === options?.checksum &&
+      resolve(checkpoint.file.path) === fingerprint.path &&
+      checkpoint.file.size === fingerprint.size &&
+      checkpoint.file.lastModified === fingerprint.lastModified;
+
+    if (matches) {
+      try {
+        serverParts = await listAllParts(bucketName, key, checkpoint.uploadId, signal);
+      } catch (error) {
+        // 上传已被中止或已过期，重新开始
+        if (!isNotFound(error)) {
+          throw error;
+        }
+        checkpoint = null;
+      }
+    } else {
+      await abortMultipartUpload(checkpoint.bucket, checkpoint.key, checkpoint.uploadId).catch(
+        () => undefined
+      );
+      checkpoint = null;
+    }
+  }
+
+  if (!checkpoint) {
+    const checksum = options?.checksum;
+    const { UploadId } = await createMultipartUpload(bucketName, key, {
+      ...pickHeaders(options),
+      contentType: options?.contentType ?? (file.type || undefined),
+      metadata: checksum
+        ? {
+            ...options?.metadata,
+            [getChecksumMetadataKey(checksum)]: await computeBlobChecksum(file, checksum),
+          }
+        : options?.metadata,
+      storageClass: options?.storageClass,
+      // MD5 通过 Content-MD5 校验分段，其他算法需在创建上传时指定
+      checksumAlgorithm: checksum === 'MD5' ? undefined : checksum,
+      signal,
+    });
+    if (!UploadId) {
+      throw new R2Error('Failed to create multipart upload: no UploadId returned', {
+        bucket: bucketName,
+        key,
+      });
+    }
+    checkpoint = {
+      version: 1,
+      bucket: bucketName,
+      key,
+      uploadId: UploadId,
+      partSize: resolvePartSize(options?.partSize ?? DEFAULT_PART_SIZE, file.size),
+      checksum,
+      file: fingerprint,
+      parts: [],
+    };
+  }
+
+  const { uploadId, partSize } = checkpoint;
+  const partCount = Math.ceil(file.size / partSize);
+  const expectedSize = (partNumber: number) =>
+    Math.min(partSize, file.size - (partNumber - 1) * partSize);
+
+  // 以服务端为准：只保留大小正确的分段
+  const completed = new Map<number, CompletedPart>();
+  for (const [partNumber, { Size, ...part }] of serverParts) {
+    if (partNumber <= partCount && Size === expectedSize(partNumber)) {
+      completed.set(partNumber, part);
+    }
+  }
+
+  const state: UploadCheckpoint = checkpoint;
+  let writing: Promise<unknown> = Promise.resolve();
+  const saveCheckpoint = () => {
+    state.parts = [...completed.values()].sort((a, b) => a.PartNumber - b.PartNumber);
+    const snapshot = JSON.stringify(state);
+    writing = writing.then(() => Bun.write(checkpointPath, snapshot));
+    return writing;
+  };
+  await saveCheckpoint();
+
+  let loaded = [...completed.keys()].reduce((sum, n) => sum + expectedSize(n), 0);
+  options?.onProgress?.({ loaded, total: file.size });
+
+  const missing = Array.from({ length: partCount }, (_, i) => i + 1).filter(
+    (partNumber) => !completed.has(partNumber)
+  );
+
+  await mapConcurrent(missing, options?.concurrency ?? DEFAULT_CONCURRENCY, async (partNumber) => {
+    const start = (partNumber - 1) * partSize;
+    const body = new Uint8Array(await file.slice(start, start + partSize).arrayBuffer());
+    const response = await uploadPart(bucketName, key, uploadId, partNumber, body, {
+      checksum: options?.checksum,
+      signal,
+    });
+    if (!response.ETag) {
+      throw new R2Error(`Part ${partNumber} uploaded without an ETag`, { bucket: bucketName, key });
+    }
+    completed.set(partNumber, {
+      PartNumber: partNumber,
+      ETag: response.ETag,
+      ...pickPartChecksums(response),
+    });
+    loaded += body.byteLength;
+    options?.onProgress?.({ loaded, total: file.size });
+    await saveCheckpoint();
+  });
+
+  await saveCheckpoint();
+  const result = await completeMultipartUpload(bucketName, key, uploadId, state.parts, {
+    signal,
+  });
+  await Bun.file(checkpointPath).delete().catch(() => undefined);
+
+  return {
+    key,
+    etag: result.ETag,
+    versionId: result.VersionId,
+    size: file.size,
+    multipart: true,
+    uploadId,
+  };
+}
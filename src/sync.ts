@@ -0,0 +1,427 @@
+import type { _Object } from '@aws-sdk/client-s3';
+import { rm, stat, utimes } from 'node:fs/promises';
+import { join, resolve, sep } from 'node:path';
+import { createRequestSignal, type RequestOptions } from './config.js';
+import { isNotFound } from './errors.js';
+import { downloadToFile, headObject, listAllObjects } from './download.js';
+import { deleteObjects } from './file-management.js';
+import { upload } from './upload.js';
+import { mapConcurrent } from './utils.js';
+
+/**
+ * 保存本地文件修改时间（毫秒时间戳）的元数据键，对应 x-amz-meta-mtime
+ */
+export const SYNC_MTIME_METADATA_KEY = 'mtime';
+
+/**
+ * 同步方向：upload 为本地目录 → 存储桶前缀，download 为存储桶前缀 → 本地目录
+ */
+export type SyncDirection = 'upload' | 'download';
+
+/**
+ * 同步计划中的一项操作
+ */
+export interface SyncAction {
+  type: 'upload' | 'download' | 'delete';
+  /** 相对于本地目录和前缀的路径（以 / 分隔） */
+  path: string;
+  /** 对应的对象键 */
+  key: string;
+  /** 要传输的文件大小（删除时为被删除文件的大小） */
+  size: number;
+  /** 执行该操作的原因：目标不存在、大小不同、修改时间不同、内容校验不同、目标多余 */
+  reason: 'new' | 'size' | 'mtime' | 'checksum' | 'extraneous';
+}
+
+/**
+ * 目录同步配置（timeout 覆盖整个同步过程）
+ */
+export interface SyncOptions extends RequestOptions {
+  /** 同步方向，默认 upload */
+  direction?: SyncDirection;
+  /** 是否删除目标中源不存在的文件，默认 false */
+  deleteExtraneous?: boolean;
+  /**
+   * 只同步匹配这些 glob 的文件，如 "photos/**"，默认全部。
+   * 不含 / 的 glob 匹配任意目录下的文件名（如 "*.jpg"），含 / 的 glob 匹配完整的相对路径
+   */
+  include?: string[];
+  /** 不同步匹配这些 glob 的文件，如 "*.tmp"、".DS_Store"（匹配规则同 include，优先于 include） */
+  exclude?: string[];
+  /** 只生成同步计划，不实际传输或删除，默认 false */
+  dryRun?: boolean;
+  /** 同时比较或传输的文件数，默认 4 */
+  concurrency?: number;
+  /** 每完成一项操作后回调 */
+  onAction?: (action: SyncAction) => void;
+}
+
+/**
+ * 执行同步计划的配置（timeout 覆盖整个执行过程）
+ */
+export type ApplySyncPlanOptions = Pick<SyncOptions, keyof RequestOptions | 'concurrency' | 'onAction'>;
+
+/**
+ * 目录同步结果
+ */
+export interface SyncResult {
+  direction: SyncDirection;
+  /** 同步计划（dry-run 时为将要执行的操作） */
+  actions: SyncAction[];
+  /** 内容一致而跳过的文件数 */
+  skipped: number;
+  /** 执行失败的操作，单个文件失败不会中断同步 */
+  failed: Array<{ action: SyncAction; error: unknown }>;
+  dryRun: boolean;
+}
+
+interface LocalEntry {
+  path: string;
+  filePath: string;
+  size: number;
+  mtime: number;
+}
+
+/**
+ * 编译 include / exclude 中的 glob，返回判断相对路径是否匹配的函数
+ *
+ * 不含 / 的 glob 匹配文件名（与 .gitignore 相同），否则匹配完整的相对路径。
+ * @param pattern glob
+ */
+function compilePathGlob(pattern: string) {
+  const glob = new Bun.Glob(pattern);
+  return pattern.includes('/')
+    ? (path: string) => glob.match(path)
+    : (path: string) => glob.match(path.slice(path.lastIndexOf('/') + 1));
+}
+
+/**
+ * 判断相对路径是否通过 include / exclude 过滤
+ * @param path 相对路径
+ * @param include 包含的 glob
+ * @param exclude 排除的 glob
+ */
+function isIncluded(
+  path: string,
+  include: Array<(path: string) => boolean>,
+  exclude: Array<(path: string) => boolean>
+) {
+  if (exclude.some((match) => match(path))) {
+    return false;
+  }
+  return include.length === 0 || include.some((match) => match(path));
+}
+
+/**
+ * 列出本地目录下的所有文件（相对路径统一使用 / 分隔）
+ * @param localDir 本地目录
+ * @param allowMissing 目录不存在时是否返回空列表（下载到新目录时）
+ * @returns 相对路径到文件信息的映射
+ */
+async function scanLocalDirectory(localDir: string, allowMissing: boolean) {
+  const entries = new Map<string, LocalEntry>();
+  const exists = await stat(localDir).then(
+    (stats) => stats.isDirectory(),
+    () => false
+  );
+  if (!exists) {
+    if (allowMissing) {
+      return entries;
+    }
+    throw new Error(`Directory not found: ${localDir}`);
+  }
+
+  const glob = new Bun.Glob('**/*');
+
+  for await (const relative of glob.scan({ cwd: localDir, onlyFiles: true, dot: true })) {
+    const path = relative.split(sep).join('/');
+    // 跳过 downloadToFile 未完成下载的临时文件
+    if (path.endsWith('.r2download') || path.endsWith('.r2download.json')) {
+      continue;
+    }
+    const filePath = join(localDir, relative);
+    const file = Bun.file(filePath);
+    entries.set(path, { path, filePath, size: file.size, mtime: file.lastModified });
+  }
+
+  return entries;
+}
+
+/**
+ * 将相对路径解析为本地目录下的文件路径
+ *
+ * 下载方向的相对路径来自对象键，可能包含 ".." 或绝对路径，解析结果必须位于本地目录之内。
+ * @param localDir 本地目录
+ * @param path 相对路径（以 / 分隔）
+ * @throws Error 解析结果不在本地目录之内时
+ * @returns 本地文件的绝对路径
+ */
+function resolveLocalPath(localDir: string, path: string): string {
+  const root = resolve(localDir);
+  const filePath = resolve(root, ...path.split('/'));
+  if (!filePath.startsWith(root.endsWith(sep) ? root : root + sep)) {
+    throw new Error(`Path escapes the local directory: ${path}`);
+  }
+  return filePath;
+}
+
+/**
+ * 计算本地文件的 MD5（十六进制）
+ * @param filePath 文件路径
+ * @returns MD5 十六进制字符串
+ */
+async function md5File(filePath: string): Promise<string> {
+  const hasher = new Bun.CryptoHasher('md5');
+  for await (const chunk of Bun.file(filePath).stream()) {
+    hasher.update(chunk);
+  }
+  return hasher.digest('hex');
+}
+
+/**
+ * 比较大小相同的本地文件与对象
+ *
+ * 先比较元数据中保存的修改时间（由 syncDirectory 上传时写入）；没有保存修改时间时，
+ * 比较对象的 LastModified 与本地修改时间（下载时会把本地修改时间设置为 LastModified，精确到秒）。
+ * 时间不一致时，对非分段上传的对象比较本地 MD5 与 ETag。
+ * @param bucketName 存储桶名称
+ * @param local 本地文件
+ * @param object 对象
+ * @param signal 取消信号
+ * @returns 需要传输的原因，内容一致时返回 null
+ */
+async function compareSameSize(
+  bucketName: string,
+  local: LocalEntry,
+  object: _Object & { Key: string },
+  signal: AbortSignal | undefined
+): Promise<SyncAction['reason'] | null> {
+  let head;
+  try {
+    head = await headObject(bucketName, object.Key, { signal });
+  } catch (error) {
+    // 对象在列出之后被删除
+    if (isNotFound(error)) {
+      return 'new';
+    }
+    throw error;
+  }
+  const storedMtime = Number(head.Metadata?.[SYNC_MTIME_METADATA_KEY]);
+  if (Number.isFinite(storedMtime) && storedMtime === local.mtime) {
+    return null;
+  }
+  const lastModified = (head.LastModified ?? object.LastModified)?.getTime();
+  if (
+    !Number.isFinite(storedMtime) &&
+    lastModified !== undefined &&
+    Math.floor(lastModified / 1000) === Math.floor(local.mtime / 1000)
+  ) {
+    return null;
+  }
+
+  // 分段上传对象的 ETag 不是内容的 MD5，无法校验内容
+  const etag = (head.ETag ?? object.ETag)?.replaceAll('"', '');
+  if (etag && !etag.includes('-')) {
+    return (await md5File(local.filePath)) === etag ? null : 'checksum';
+  }
+  return Number.isFinite(storedMtime) ? 'mtime' : 'checksum';
+}
+
+/**
+ * 同步本地目录与存储桶前缀（类似 aws s3 sync / rclone sync）
+ *
+ * 按大小、元数据中保存的修改时间和 ETag / MD5 比较两侧文件，只传输有差异的文件。
+ * 上传时把本地修改时间写入对象元数据，下载时把本地文件的修改时间设置为该时间，
+ * 因此未变化的文件在下次同步时无需再次校验内容。
+ * 下载时解析后不在本地目录之内的对象键（如包含 ".."）记为失败，不会读写本地文件。
+ * @param localDir 本地目录
+ * @param bucketName 存储桶名称
+ * @param prefix 对象键前缀，如 "backup/photos/"，省略表示整个存储桶
+ * @param options 可选配置
+ * @returns 同步计划与执行结果
+ *
+ * @example
+ * ```typescript
+ * const plan = await syncDirectory('./public', 'my-bucket', 'site/', {
+ *   exclude: ['.DS_Store', 'tmp/**'],
+ *   deleteExtraneous: true,
+ *   dryRun: true,
+ * });
+ * for (const action of plan.actions) console.log(action.type, action.path, action.reason);
+ * ```
+ */
+export async function syncDirectory(
+  localDir: string,
+  bucketName: string,
+  prefix: string = '',
+  options?: SyncOptions
+): Promise<SyncResult> {
+  const signal = createRequestSignal(options);
+  const direction = options?.direction ?? 'upload';
+  const concurrency = options?.concurrency ?? 4;
+  const dryRun = options?.dryRun ?? false;
+  const include = (options?.include ?? []).map(compilePathGlob);
+  const exclude = (options?.exclude ?? []).map(compilePathGlob);
+  const keyPrefix = prefix && !prefix.endsWith('/') ? prefix + '/' : prefix;
+
+  const localEntries = await scanLocalDirectory(localDir, direction === 'download');
+  const remoteEntries = new Map<string, _Object & { Key: string }>();
+  for (const object of await listAllObjects(bucketName, {
+    prefix: keyPrefix || undefined,
+    signal,
+  })) {
+    // 忽略目录占位对象
+    if (object.Key && !object.Key.endsWith('/')) {
+      remoteEntries.set(object.Key.slice(keyPrefix.length), { ...object, Key: object.Key });
+    }
+  }
+
+  const [sources, targets] =
+    direction === 'upload' ? [localEntries, remoteEntries] : [remoteEntries, localEntries];
+  const transferType = direction === 'upload' ? 'upload' : 'download';
+
+  // 生成同步计划
+  const result: SyncResult = { direction, actions: [], skipped: 0, failed: [], dryRun };
+  const candidates = [...sources.keys()].filter((path) => isIncluded(path, include, exclude));
+
+  await mapConcurrent(candidates, concurrency, async (path) => {
+    const local = localEntries.get(path);
+    const remote = remoteEntries.get(path);
+    const size = (direction === 'upload' ? local?.size : remote?.Size) ?? 0;
+    let reason: SyncAction['reason'] | null;
+
+    if (!local || !remote) {
+      reason = 'new';
+    } else if (local.size !== (remote.Size ?? 0)) {
+      reason = 'size';
+    } else {
+      reason = await compareSameSize(bucketName, local, remote, signal);
+    }
+
+    if (reason) {
+      result.actions.push({ type: transferType, path, key: keyPrefix + path, size, reason });
+    } else {
+      result.skipped += 1;
+    }
+  });
+
+  if (options?.deleteExtraneous) {
+    for (const [path, target] of targets) {
+      if (!sources.has(path) && isIncluded(path, include, exclude)) {
+        const size = 'filePath' in target ? target.size : (target.Size ?? 0);
+        result.actions.push({ type: 'delete', path, key: keyPrefix + path, size, reason: 'extraneous' });
+      }
+    }
+  }
+
+  result.actions.sort((a, b) => a.path.localeCompare(b.path));
+  if (dryRun) {
+    return result;
+  }
+  return await applySyncPlan(localDir, bucketName, result, {
+    concurrency,
+    onAction: options?.onAction,
+    signal,
+  });
+}
+
+/**
+ * 执行 syncDirectory dry-run 生成的同步计划
+ *
+ * 只执行计划中的操作，不会重新比较两侧文件，适合在用户确认计划后执行。
+ * 上传时写入元数据的修改时间取执行时本地文件的修改时间。
+ * @param localDir 本地目录（与生成计划时相同）
+ * @param bucketName 存储桶名称
+ * @param plan 同步计划
+ * @param options 可选配置
+ * @returns 执行结果
+ *
+ * @example
+ * ```typescript
+ * const plan = await syncDirectory('./public', 'my-bucket', 'site/', { deleteExtraneous: true, dryRun: true });
+ * if (await confirmPlan(plan.actions)) {
+ *   const result = await applySyncPlan('./public', 'my-bucket', plan);
+ *   console.log(`${result.failed.length} action(s) failed`);
+ * }
+ * ```
+ */
+export async function applySyncPlan(
+  localDir: string,
+  bucketName: string,
+  plan: SyncResult,
+  options?: ApplySyncPlanOptions
+): Promise<SyncResult> {
+  const signal = createRequestSignal(options);
+  const concurrency = options?.concurrency ?? 4;
+  const result: SyncResult = { ...plan, failed: [], dryRun: false };
+
+  const run = async (action: SyncAction, task: () => Promise<unknown>) => {
+    try {
+      await task();
+      options?.onAction?.(action);
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      result.failed.push({ action, error });
+    }
+  };
+
+  const transfers = result.actions.filter((action) => action.type !== 'delete');
+  await mapConcurrent(transfers, concurrency, (action) =>
+    run(action, async () => {
+      const filePath = resolveLocalPath(localDir, action.path);
+      if (action.type === 'upload') {
+        const mtime = Bun.file(filePath).lastModified;
+        await upload(bucketName, action.key, filePath, {
+          metadata: { [SYNC_MTIME_METADATA_KEY]: String(mtime) },
+          signal,
+        });
+      } else {
+        await downloadToFile(bucketName, action.key, filePath, { signal });
+        const head = await headObject(bucketName, action.key, { signal });
+        const storedMtime = Number(head.Metadata?.[SYNC_MTIME_METADATA_KEY]);
+        const mtime = Number.isFinite(storedMtime)
+          ? new Date(storedMtime)
+          : (head.LastModified ?? new Date());
+        await utimes(filePath, mtime, mtime);
+      }
+    })
+  );
+
+  const deletions = result.actions.filter((action) => action.type === 'delete');
+  if (plan.direction === 'upload') {
+    for (let i = 0; i < deletions.length; i += 1000) {
+      const batch = deletions.slice(i, i + 1000);
+      try {
+        const response = await deleteObjects(
+          bucketName,
+          batch.map((action) => action.key),
+          { signal }
+        );
+        const errors = new Map((response.Errors ?? []).map((error) => [error.Key, error]));
+        for (const action of batch) {
+          const error = errors.get(action.key);
+          if (error) {
+            result.failed.push({ action, error });
+          } else {
+            options?.onAction?.(action);
+          }
+        }
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error;
+        }
+        result.failed.push(...batch.map((action) => ({ action, error })));
+      }
+    }
+  } else {
+    await mapConcurrent(deletions, concurrency, (action) =>
+      run(action, async () => {
+        await rm(resolveLocalPath(localDir, action.path), { force: true });
+      })
+    );
+  }
+
+  return result;
+}
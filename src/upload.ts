@@ -7,64 +7,152 @@ import {
   CompleteMultipartUploadCommand,
   AbortMultipartUploadCommand,
   CopyObjectCommand,
+  type HeadObjectCommandOutput,
 } from '@aws-sdk/client-s3';
-import { getR2Client } from './config.js';
+import { createRequestSignal, sendCommand, type RequestOptions } from './config.js';
+import {
+  computeBlobChecksum,
+  computeChecksum,
+  getChecksumMetadataKey,
+  toChecksumInput,
+  type ChecksumAlgorithm,
+} from './checksum.js';
+import { addPutConditionHeaders, type ObjectConditions } from './conditions.js';
+import {
+  fromHeaderOutput,
+  hasHeaders,
+  pickHeaders,
+  toHeaderInput,
+  OBJECT_HEADER_FIELDS,
+  type ObjectHeaders,
+  type R2StorageClass,
+} from './headers.js';
+import { headObject } from './download.js';
+import { PreconditionFailedError, R2Error } from './errors.js';
+import { concatBytes, mapConcurrent } from './utils.js';
+
+/**
+ * 生成 CopySource 参数：对象键需要 URL 编码（保留路径分隔符），
+ * 否则包含空格、+、#、中文等字符的键会复制失败
+ * @param sourceBucket 源存储桶名称
+ * @param sourceKey 源对象键
+ * @returns 编码后的 CopySource，如 "bucket/photos/my%20photo.jpg"
+ */
+export function encodeCopySource(sourceBucket: string, sourceKey: string): string {
+  return `${sourceBucket}/${sourceKey.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+/**
+ * 将源对象条件不满足导致的 PreconditionFailedError 的上下文改为源对象
+ *
+ * 同时设置了目标对象条件时，根据错误中的 Condition 判断（x-amz-copy-source-* 为源对象条件），
+ * 无法判断时保持原样。
+ * @param error 复制时抛出的错误
+ * @param sourceBucket 源存储桶名称
+ * @param sourceKey 源对象键
+ * @param hasDestinationConditions 是否设置了目标对象条件
+ * @returns 转换后的错误
+ */
+function toSourceConditionError(
+  error: unknown,
+  sourceBucket: string,
+  sourceKey: string,
+  hasDestinationConditions: boolean
+): unknown {
+  if (!(error instanceof PreconditionFailedError)) {
+    return error;
+  }
+  const condition = (error.cause as { Condition?: string } | undefined)?.Condition;
+  const isSource = condition
+    ? condition.toLowerCase().startsWith('x-amz-copy-source')
+    : !hasDestinationConditions;
+  if (!isSource) {
+    return error;
+  }
+  return new PreconditionFailedError(
+    `Precondition failed for copy source ${sourceBucket}/${sourceKey}`,
+    {
+      statusCode: error.statusCode,
+      code: error.code,
+      requestId: error.requestId,
+      bucket: sourceBucket,
+      key: sourceKey,
+      cause: error.cause,
+    }
+  );
+}
 
 /**
  * 上传对象到 R2
  * @param bucketName 存储桶名称
  * @param key 对象键
  * @param body 对象内容
- * @param options 可选配置
+ * @param options 可选配置（Content-Type、Cache-Control 等响应头和元数据；conditions 为条件上传，
+ * 如 { ifNoneMatch: '*' } 仅在对象不存在时创建；checksum 为计算校验值并交由 R2 校验；
+ * storageClass 为存储类型，默认使用存储桶的默认存储类型）
+ * @throws PreconditionFailedError 条件不满足时
  * @returns 上传结果
  */
 export async function putObject(
   bucketName: string,
   key: string,
   body: Buffer | Uint8Array | string,
-  options?: {
-    contentType?: string;
-    metadata?: Record<string, string>;
-  }
+  options?: RequestOptions &
+    ObjectHeaders & {
+      metadata?: Record<string, string>;
+      conditions?: ObjectConditions;
+      checksum?: ChecksumAlgorithm;
+      storageClass?: R2StorageClass;
+    }
 ) {
-  const client = getR2Client();
-
+  const bytes = typeof body === 'string' ? new TextEncoder().encode(body) : body;
   const command = new PutObjectCommand({
     Bucket: bucketName,
     Key: key,
     Body: body,
-    ContentType: options?.contentType,
+    ...toHeaderInput(options),
     Metadata: options?.metadata,
+    StorageClass: options?.storageClass,
+    IfMatch: options?.conditions?.ifMatch,
+    IfNoneMatch: options?.conditions?.ifNoneMatch,
+    ...(options?.checksum
+      ? toChecksumInput(options.checksum, computeChecksum(bytes, options.checksum))
+      : undefined),
   });
+  if (options?.conditions) {
+    addPutConditionHeaders(command, options.conditions);
+  }
 
-  return await client.send(command);
+  return await sendCommand(command, options);
 }
 
 /**
  * 启动分段上传
  * @param bucketName 存储桶名称
  * @param key 对象键
- * @param options 可选配置
+ * @param options 可选配置（响应头、元数据和存储类型；checksumAlgorithm 指定分段使用的校验算法，之后每个分段都需携带该校验值）
  * @returns 分段上传ID
  */
 export async function createMultipartUpload(
   bucketName: string,
   key: string,
-  options?: {
-    contentType?: string;
-    metadata?: Record<string, string>;
-  }
+  options?: RequestOptions &
+    ObjectHeaders & {
+      metadata?: Record<string, string>;
+      checksumAlgorithm?: Exclude<ChecksumAlgorithm, 'MD5'>;
+      storageClass?: R2StorageClass;
+    }
 ) {
-  const client = getR2Client();
-
   const command = new CreateMultipartUploadCommand({
     Bucket: bucketName,
     Key: key,
-    ContentType: options?.contentType,
+    ...toHeaderInput(options),
     Metadata: options?.metadata,
+    ChecksumAlgorithm: options?.checksumAlgorithm,
+    StorageClass: options?.storageClass,
   });
 
-  return await client.send(command);
+  return await sendCommand(command, options);
 }
 
 /**
@@ -74,6 +162,7 @@ export async function createMultipartUpload(
  * @param uploadId 分段上传ID
  * @param partNumber 分段编号 (从1开始)
  * @param body 分段内容
+ * @param options 可选配置（checksum 为计算分段校验值并交由 R2 校验，MD5 以外的算法需在创建上传时指定）
  * @returns 分段上传结果，包含 ETag
  */
 export async function uploadPart(
@@ -81,19 +170,23 @@ export async function uploadPart(
   key: string,
   uploadId: string,
   partNumber: number,
-  body: Buffer | Uint8Array
+  body: Buffer | Uint8Array,
+  options?: RequestOptions & {
+    checksum?: ChecksumAlgorithm;
+  }
 ) {
-  const client = getR2Client();
-
   const command = new UploadPartCommand({
     Bucket: bucketName,
     Key: key,
     UploadId: uploadId,
     PartNumber: partNumber,
     Body: body,
+    ...(options?.checksum
+      ? toChecksumInput(options.checksum, computeChecksum(body, options.checksum))
+      : undefined),
   });
 
-  return await client.send(command);
+  return await sendCommand(command, options);
 }
 
 /**
@@ -104,7 +197,7 @@ export async function uploadPart(
  * @param partNumber 分段编号 (从1开始)
  * @param sourceBucket 源存储桶名称
  * @param sourceKey 源对象键
- * @param options 可选配置（如复制字节范围）
+ * @param options 可选配置（如复制字节范围、源对象条件）
  * @returns 分段复制结果，包含 ETag
  */
 export async function uploadPartCopy(
@@ -114,22 +207,59 @@ export async function uploadPartCopy(
   partNumber: number,
   sourceBucket: string,
   sourceKey: string,
-  options?: {
+  options?: RequestOptions & {
     copySourceRange?: string; // 格式: "bytes=start-end"
+    sourceConditions?: ObjectConditions;
   }
 ) {
-  const client = getR2Client();
-
   const command = new UploadPartCopyCommand({
     Bucket: bucketName,
     Key: key,
     UploadId: uploadId,
     PartNumber: partNumber,
-    CopySource: `${sourceBucket}/${sourceKey}`,
+    CopySource: encodeCopySource(sourceBucket, sourceKey),
     CopySourceRange: options?.copySourceRange,
+    CopySourceIfMatch: options?.sourceConditions?.ifMatch,
+    CopySourceIfNoneMatch: options?.sourceConditions?.ifNoneMatch,
+    CopySourceIfModifiedSince: options?.sourceConditions?.ifModifiedSince,
+    CopySourceIfUnmodifiedSince: options?.sourceConditions?.ifUnmodifiedSince,
   });
 
-  return await client.send(command);
+  try {
+    return await sendCommand(command, options);
+  } catch (error) {
+    throw options?.sourceConditions
+      ? toSourceConditionError(error, sourceBucket, sourceKey, false)
+      : error;
+  }
+}
+
+/**
+ * 已上传的分段（创建上传时指定了校验算法则还需包含对应的校验值）
+ */
+export interface CompletedPart {
+  PartNumber: number;
+  ETag: string;
+  ChecksumSHA256?: string;
+  ChecksumCRC32?: string;
+  ChecksumCRC32C?: string;
+}
+
+/**
+ * 从 uploadPart / listParts 的结果中挑出分段的校验值（忽略未返回的算法）
+ * @param output SDK 命令输出
+ * @returns ChecksumSHA256 / ChecksumCRC32 / ChecksumCRC32C 字段
+ */
+export function pickPartChecksums(
+  output: Omit<CompletedPart, 'PartNumber' | 'ETag'>
+): Omit<CompletedPart, 'PartNumber' | 'ETag'> {
+  const checksums: Omit<CompletedPart, 'PartNumber' | 'ETag'> = {};
+  for (const field of ['ChecksumSHA256', 'ChecksumCRC32', 'ChecksumCRC32C'] as const) {
+    if (output[field] !== undefined) {
+      checksums[field] = output[field];
+    }
+  }
+  return checksums;
 }
 
 /**
@@ -137,17 +267,17 @@ export async function uploadPartCopy(
  * @param bucketName 存储桶名称
  * @param key 对象键
  * @param uploadId 分段上传ID
- * @param parts 分段列表，每个包含 PartNumber 和 ETag
+ * @param parts 分段列表，每个包含 PartNumber 和 ETag（创建时指定了校验算法则还需包含对应的校验值）
+ * @param options 可选配置（取消信号、超时）
  * @returns 完成上传结果
  */
 export async function completeMultipartUpload(
   bucketName: string,
   key: string,
   uploadId: string,
-  parts: Array<{ PartNumber: number; ETag: string }>
+  parts: CompletedPart[],
+  options?: RequestOptions
 ) {
-  const client = getR2Client();
-
   const command = new CompleteMultipartUploadCommand({
     Bucket: bucketName,
     Key: key,
@@ -157,7 +287,7 @@ export async function completeMultipartUpload(
     },
   });
 
-  return await client.send(command);
+  return await sendCommand(command, options);
 }
 
 /**
@@ -165,31 +295,35 @@ export async function completeMultipartUpload(
  * @param bucketName 存储桶名称
  * @param key 对象键
  * @param uploadId 分段上传ID
+ * @param options 可选配置（取消信号、超时）
  * @returns 中止上传结果
  */
 export async function abortMultipartUpload(
   bucketName: string,
   key: string,
-  uploadId: string
+  uploadId: string,
+  options?: RequestOptions
 ) {
-  const client = getR2Client();
-
   const command = new AbortMultipartUploadCommand({
     Bucket: bucketName,
     Key: key,
     UploadId: uploadId,
   });
 
-  return await client.send(command);
+  return await sendCommand(command, options);
 }
 
 /**
- * 复制对象
+ * 复制对象（单次请求，源对象不能超过 5 GB，更大的对象请使用 copyLargeObject）
+ * 默认沿用源对象的元数据和响应头；metadataDirective 为 REPLACE 时以 metadata 和响应头替换
+ * （未设置的项会被清空）。只修改部分字段请使用 updateObjectMetadata。
+ * 未设置 storageClass 时目标对象使用存储桶的默认存储类型
  * @param sourceBucket 源存储桶名称
  * @param sourceKey 源对象键
  * @param destinationBucket 目标存储桶名称
  * @param destinationKey 目标对象键
- * @param options 可选配置
+ * @param options 可选配置（sourceConditions 作用于源对象，destinationConditions 作用于目标对象）
+ * @throws PreconditionFailedError 条件不满足时（源对象条件不满足时 bucket / key 为源对象）
  * @returns 复制结果
  */
 export async function copyObject(
@@ -197,20 +331,711 @@ export async function copyObject(
   sourceKey: string,
   destinationBucket: string,
   destinationKey: string,
-  options?: {
-    metadata?: Record<string, string>;
-    contentType?: string;
-  }
+  options?: RequestOptions &
+    ObjectHeaders & {
+      metadata?: Record<string, string>;
+      /** COPY（默认）沿用源对象的元数据和响应头，REPLACE 使用 metadata 和响应头 */
+      metadataDirective?: 'COPY' | 'REPLACE';
+      sourceConditions?: ObjectConditions;
+      destinationConditions?: Pick<ObjectConditions, 'ifMatch' | 'ifNoneMatch'>;
+      storageClass?: R2StorageClass;
+    }
 ) {
-  const client = getR2Client();
-
   const command = new CopyObjectCommand({
     Bucket: destinationBucket,
-    CopySource: `${sourceBucket}/${sourceKey}`,
+    CopySource: encodeCopySource(sourceBucket, sourceKey),
     Key: destinationKey,
+    MetadataDirective: options?.metadataDirective,
     Metadata: options?.metadata,
-    ContentType: options?.contentType,
+    ...toHeaderInput(options),
+    StorageClass: options?.storageClass,
+    CopySourceIfMatch: options?.sourceConditions?.ifMatch,
+    CopySourceIfNoneMatch: options?.sourceConditions?.ifNoneMatch,
+    CopySourceIfModifiedSince: options?.sourceConditions?.ifModifiedSince,
+    CopySourceIfUnmodifiedSince: options?.sourceConditions?.ifUnmodifiedSince,
+    IfMatch: options?.destinationConditions?.ifMatch,
+    IfNoneMatch: options?.destinationConditions?.ifNoneMatch,
+  });
+
+  try {
+    return await sendCommand(command, options);
+  } catch (error) {
+    throw options?.sourceConditions
+      ? toSourceConditionError(
+          error,
+          sourceBucket,
+          sourceKey,
+          options.destinationConditions !== undefined
+        )
+      : error;
+  }
+}
+
+/**
+ * 可上传的数据源：本地文件路径、Blob（包括 Bun.file）或字节流
+ */
+export type UploadSource = string | Blob | ReadableStream<Uint8Array>;
+
+/**
+ * 上传进度
+ */
+export interface UploadProgress {
+  /** 已上传字节数 */
+  loaded: number;
+  /** 总字节数（数据源为流时未知） */
+  total?: number;
+}
+
+/**
+ * 托管上传配置（timeout 覆盖整个上传过程）
+ */
+export interface UploadOptions extends RequestOptions, ObjectHeaders {
+  metadata?: Record<string, string>;
+  /** 存储类型，默认使用存储桶的默认存储类型 */
+  storageClass?: R2StorageClass;
+  /** 超过该大小时使用分段上传，默认 100 MB */
+  multipartThreshold?: number;
+  /** 分段大小，默认 10 MB，最小 5 MB */
+  partSize?: number;
+  /** 同时上传的分段数量，默认 4 */
+  concurrency?: number;
+  /** 进度回调 */
+  onProgress?: (progress: UploadProgress) => void;
+  /** 可续传模式（仅适用于本地文件路径），中断后再次调用会跳过已上传的分段 */
+  resumable?: boolean;
+  /** 续传检查点文件路径，默认保存在系统临时目录 */
+  checkpointPath?: string;
+  /**
+   * 完整性校验算法。设置后每个请求（包括每个分段）都携带该算法的校验值由 R2 校验，
+   * 并将完整对象的校验值保存在元数据 checksum-<算法> 中，供下载时校验。
+   * 以流上传且超过分段阈值时，元数据须在读取数据前写入而无法得到完整对象的校验值，只校验各分段
+   */
+  checksum?: ChecksumAlgorithm;
+}
+
+/**
+ * 托管上传结果
+ */
+export interface UploadResult {
+  key: string;
+  etag?: string;
+  versionId?: string;
+  size: number;
+  /** 是否使用了分段上传 */
+  multipart: boolean;
+  uploadId?: string;
+}
+
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+const MAX_PARTS = 10000;
+export const DEFAULT_PART_SIZE = 10 * 1024 * 1024;
+export const DEFAULT_MULTIPART_THRESHOLD = 100 * 1024 * 1024;
+export const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * 计算分段大小，保证不小于 5 MB 且分段数不超过 10000
+ * @param partSize 期望的分段大小
+ * @param totalSize 总大小（未知时不做限制）
+ * @returns 实际使用的分段大小
+ */
+export function resolvePartSize(partSize: number, totalSize?: number): number {
+  let size = Math.max(partSize, MIN_PART_SIZE);
+  if (totalSize !== undefined && Math.ceil(totalSize / size) > MAX_PARTS) {
+    size = Math.ceil(totalSize / MAX_PARTS);
+  }
+  return size;
+}
+
+/**
+ * 将 Blob 按分段大小切片，按需读取每个分段
+ * @param blob 数据源
+ * @param partSize 分段大小
+ */
+async function* blobParts(blob: Blob, partSize: number) {
+  for (let start = 0; start < blob.size; start += partSize) {
+    const end = Math.min(start + partSize, blob.size);
+    yield new Uint8Array(await blob.slice(start, end).arrayBuffer());
+  }
+}
+
+/**
+ * 将字节流重新切分为固定大小的分段（最后一段可能不足）
+ * @param stream 数据源
+ * @param partSize 分段大小
+ */
+async function* streamParts(stream: ReadableStream<Uint8Array>, partSize: number) {
+  const reader = stream.getReader();
+  let chunks: Uint8Array[] = [];
+  let buffered = 0;
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      let chunk = value;
+      while (buffered + chunk.byteLength >= partSize) {
+        const take = partSize - buffered;
+        chunks.push(chunk.subarray(0, take));
+        yield concatBytes(chunks, partSize);
+        chunk = chunk.subarray(take);
+        chunks = [];
+        buffered = 0;
+      }
+      if (chunk.byteLength > 0) {
+        chunks.push(chunk);
+        buffered += chunk.byteLength;
+      }
+    }
+
+    if (buffered > 0) {
+      yield concatBytes(chunks, buffered);
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * 为分段依次编号
+ * @param parts 分段数据
+ */
+async function* numberParts(parts: AsyncIterable<Uint8Array>) {
+  let partNumber = 1;
+  for await (const body of parts) {
+    yield { partNumber: partNumber++, body };
+  }
+}
+
+/**
+ * 以分段上传方式并发上传所有分段，失败时自动中止分段上传
+ * @param bucketName 存储桶名称
+ * @param key 对象键
+ * @param parts 分段数据
+ * @param options 上传配置
+ * @param total 总字节数（可选）
+ * @returns 上传结果
+ */
+async function uploadMultipart(
+  bucketName: string,
+  key: string,
+  parts: AsyncIterable<Uint8Array>,
+  options: UploadOptions | undefined,
+  total?: number
+): Promise<UploadResult> {
+  const signal = options?.signal;
+  const checksum = options?.checksum;
+  const { UploadId } = await createMultipartUpload(bucketName, key, {
+    ...pickHeaders(options),
+    metadata: options?.metadata,
+    storageClass: options?.storageClass,
+    // MD5 通过 Content-MD5 校验分段，其他算法需在创建上传时指定
+    checksumAlgorithm: checksum === 'MD5' ? undefined : checksum,
+    signal,
+  });
+
+  if (!UploadId) {
+    throw new R2Error('Failed to create multipart upload: no UploadId returned', {
+      bucket: bucketName,
+      key,
+    });
+  }
+
+  let loaded = 0;
+
+  try {
+    const completed = await mapConcurrent(
+      numberParts(parts),
+      options?.concurrency ?? DEFAULT_CONCURRENCY,
+      async ({ partNumber, body }) => {
+        const response = await uploadPart(bucketName, key, UploadId, partNumber, body, {
+          checksum,
+          signal,
+        });
+        if (!response.ETag) {
+          throw new R2Error(`Part ${partNumber} uploaded without an ETag`, { bucket: bucketName, key });
+        }
+        loaded += body.byteLength;
+        options?.onProgress?.({ loaded, total });
+        return { PartNumber: partNumber, ETag: response.ETag, ...pickPartChecksums(response) };
+      }
+    );
+
+    completed.sort((a, b) => a.PartNumber - b.PartNumber);
+    const result = await completeMultipartUpload(bucketName, key, UploadId, completed, {
+      signal,
+    });
+
+    return {
+      key,
+      etag: result.ETag,
+      versionId: result.VersionId,
+      size: loaded,
+      multipart: true,
+      uploadId: UploadId,
+    };
+  } catch (error) {
+    // 中止不使用调用方的取消信号，保证取消或超时后也能清理
+    await abortMultipartUpload(bucketName, key, UploadId).catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * 以单次 PUT 上传数据
+ * @param bucketName 存储桶名称
+ * @param key 对象键
+ * @param body 对象内容
+ * @param options 上传配置
+ * @returns 上传结果
+ */
+async function uploadSingle(
+  bucketName: string,
+  key: string,
+  body: Uint8Array,
+  options: UploadOptions | undefined
+): Promise<UploadResult> {
+  const checksum = options?.checksum;
+  const result = await putObject(bucketName, key, body, {
+    ...pickHeaders(options),
+    metadata: checksum
+      ? { ...options?.metadata, [getChecksumMetadataKey(checksum)]: computeChecksum(body, checksum) }
+      : options?.metadata,
+    checksum,
+    storageClass: options?.storageClass,
+    signal: options?.signal,
   });
+  options?.onProgress?.({ loaded: body.byteLength, total: body.byteLength });
 
-  return await client.send(command);
+  return {
+    key,
+    etag: result.ETag,
+    versionId: result.VersionId,
+    size: body.byteLength,
+    multipart: false,
+  };
+}
+
+/**
+ * 托管上传：根据数据大小自动选择单次上传或并发分段上传
+ *
+ * 数据以流式方式按分段读取，内存占用约为 分段大小 × 并发数；
+ * 数据源为流时，先缓冲至阈值大小再决定上传方式。
+ * @param bucketName 存储桶名称
+ * @param key 对象键
+ * @param source 数据源：本地文件路径、Blob 或字节流
+ * @param options 可选配置
+ * @returns 上传结果
+ */
+export async function upload(
+  bucketName: string,
+  key: string,
+  source: UploadSource,
+  options?: UploadOptions
+): Promise<UploadResult> {
+  const threshold = options?.multipartThreshold ?? DEFAULT_MULTIPART_THRESHOLD;
+
+  if (typeof source === 'string' && options?.resumable) {
+    return await uploadFile(bucketName, key, source, options);
+  }
+
+  // 超时覆盖整个上传过程：合并为一个信号传给每个子请求
+  options = { ...options, signal: createRequestSignal(options), timeout: undefined };
+
+  if (typeof source === 'string') {
+    const file = Bun.file(source);
+    if (!(await file.exists())) {
+      throw new Error(`File not found: ${source}`);
+    }
+    source = file;
+  }
+
+  if (source instanceof Blob) {
+    const blob = source;
+    const resolvedOptions = {
+      ...options,
+      contentType: options?.contentType ?? (blob.type || undefined),
+    };
+
+    if (blob.size <= threshold) {
+      const body = new Uint8Array(await blob.arrayBuffer());
+      return await uploadSingle(bucketName, key, body, resolvedOptions);
+    }
+
+    // 完整对象的校验值需要在创建分段上传时写入元数据，先读取一遍文件计算
+    if (options?.checksum) {
+      resolvedOptions.metadata = {
+        ...options.metadata,
+        [getChecksumMetadataKey(options.checksum)]: await computeBlobChecksum(
+          blob,
+          options.checksum
+        ),
+      };
+    }
+
+    const partSize = resolvePartSize(options?.partSize ?? DEFAULT_PART_SIZE, blob.size);
+    return await uploadMultipart(
+      bucketName,
+      key,
+      blobParts(blob, partSize),
+      resolvedOptions,
+      blob.size
+    );
+  }
+
+  // 流的总大小未知：先缓冲分段直到超过阈值，再决定上传方式
+  const partSize = resolvePartSize(options?.partSize ?? DEFAULT_PART_SIZE);
+  const parts = streamParts(source, partSize);
+  const head: Uint8Array[] = [];
+  let headSize = 0;
+
+  while (headSize <= threshold) {
+    const next = await parts.next();
+    if (next.done) {
+      return await uploadSingle(bucketName, key, concatBytes(head, headSize), options);
+    }
+    head.push(next.value);
+    headSize += next.value.byteLength;
+  }
+
+  // 流只能读取一次，元数据在创建分段上传时就已确定：只校验各分段，不保存完整对象的校验值
+  async function* replay() {
+    yield* head.splice(0);
+    yield* parts;
+  }
+
+  return await uploadMultipart(bucketName, key, replay(), options);
+}
+
+/**
+ * 托管上传本地文件
+ * @param bucketName 存储桶名称
+ * @param key 对象键
+ * @param filePath 本地文件路径
+ * @param options 可选配置，设置 resumable 时使用可续传的分段上传
+ * @returns 上传结果
+ */
+export async function uploadFile(
+  bucketName: string,
+  key: string,
+  filePath: string,
+  options?: UploadOptions
+): Promise<UploadResult> {
+  if (options?.resumable) {
+    const { resumableUpload } = await import('./resumable-upload.js');
+    return await resumableUpload(bucketName, key, filePath, options);
+  }
+  return await upload(bucketName, key, filePath, options);
+}
+
+/**
+ * 托管复制配置（timeout 覆盖整个复制过程）
+ */
+export interface CopyOptions extends RequestOptions, ObjectHeaders {
+  /** 覆盖目标对象的元数据，默认沿用源对象（响应头中未设置的字段也沿用源对象） */
+  metadata?: Record<string, string>;
+  /** 目标对象的存储类型，默认沿用源对象 */
+  storageClass?: R2StorageClass;
+  /** 源对象超过该大小时使用分段复制，默认 5 GB（单次复制的上限） */
+  multipartThreshold?: number;
+  /** 分段大小，默认 100 MB，最小 5 MB */
+  partSize?: number;
+  /** 同时复制的分段数量，默认 4 */
+  concurrency?: number;
+  /** 进度回调（按已复制的字节数） */
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+/**
+ * 托管复制结果
+ */
+export interface CopyResult {
+  key: string;
+  etag?: string;
+  versionId?: string;
+  size: number;
+  /** 是否使用了分段复制 */
+  multipart: boolean;
+  uploadId?: string;
+}
+
+export const DEFAULT_COPY_PART_SIZE = 100 * 1024 * 1024;
+export const DEFAULT_COPY_THRESHOLD = 5 * 1024 * 1024 * 1024;
+
+/**
+ * 复制大对象：按范围将源对象拆分为多个分段，以 uploadPartCopy 并发复制后完成分段上传
+ *
+ * 源对象较小时自动改用单次 copyObject。复制过程中源对象被修改会导致复制失败
+ * （每个分段都以复制开始时的源 ETag 作为条件），失败时自动中止分段上传。
+ * @param sourceBucket 源存储桶名称
+ * @param sourceKey 源对象键
+ * @param destinationBucket 目标存储桶名称
+ * @param destinationKey 目标对象键
+ * @param options 可选配置
+ * @returns 复制结果
+ */
+export async function copyLargeObject(
+  sourceBucket: string,
+  sourceKey: string,
+  destinationBucket: string,
+  destinationKey: string,
+  options?: CopyOptions
+): Promise<CopyResult> {
+  const signal = createRequestSignal(options);
+  const source = await headObject(sourceBucket, sourceKey, { signal });
+
+  // 设置了任一响应头或元数据时替换，未设置的字段沿用源对象
+  const replacement =
+    hasHeaders(options) || options?.metadata !== undefined
+      ? {
+          headers: { ...fromHeaderOutput(source), ...pickHeaders(options) },
+          metadata: options?.metadata ?? source.Metadata,
+        }
+      : undefined;
+
+  return await copyFromSource(
+    sourceBucket,
+    sourceKey,
+    destinationBucket,
+    destinationKey,
+    source,
+    replacement,
+    { ...options, signal, timeout: undefined }
+  );
+}
+
+/**
+ * 复制对象的元数据修改
+ *
+ * 响应头字段设为 null 表示删除该响应头；metadata 中的键设为 null 表示删除该键，未出现的键保持不变。
+ */
+export type ObjectMetadataPatch = {
+  [K in keyof ObjectHeaders]?: ObjectHeaders[K] | null;
+} & {
+  metadata?: Record<string, string | null>;
+};
+
+/**
+ * 原地修改对象的响应头和自定义元数据（如上传后修正 Cache-Control）
+ *
+ * 通过 REPLACE 指令将对象复制到自身实现，补丁中未涉及的字段保持不变；
+ * 超过 5 GB 的对象自动使用分段复制。对象在修改过程中被覆盖时抛出 PreconditionFailedError。
+ * @param bucketName 存储桶名称
+ * @param key 对象键
+ * @param patch 要修改的响应头和元数据
+ * @param options 可选配置（分段复制相关配置同 copyLargeObject）
+ * @returns 复制结果
+ *
+ * @example
+ * ```typescript
+ * await updateObjectMetadata('assets', 'app.js', {
+ *   cacheControl: 'public, max-age=31536000, immutable',
+ *   contentDisposition: null,
+ *   metadata: { revision: '42' },
+ * });
+ * ```
+ */
+export async function updateObjectMetadata(
+  bucketName: string,
+  key: string,
+  patch: ObjectMetadataPatch,
+  options?: Omit<CopyOptions, keyof ObjectHeaders | 'metadata'>
+): Promise<CopyResult> {
+  const signal = createRequestSignal(options);
+  const source = await headObject(bucketName, key, { signal });
+
+  const headers: Record<string, unknown> = { ...fromHeaderOutput(source) };
+  for (const field of OBJECT_HEADER_FIELDS) {
+    if (patch[field] !== undefined) {
+      headers[field] = patch[field] ?? undefined;
+    }
+  }
+
+  // R2 返回的元数据键均为小写
+  const metadata: Record<string, string> = { ...source.Metadata };
+  for (const [name, value] of Object.entries(patch.metadata ?? {})) {
+    if (value === null) {
+      delete metadata[name.toLowerCase()];
+    } else {
+      metadata[name.toLowerCase()] = value;
+    }
+  }
+
+  return await copyFromSource(
+    bucketName,
+    key,
+    bucketName,
+    key,
+    source,
+    { headers: headers as ObjectHeaders, metadata },
+    { ...options, signal, timeout: undefined }
+  );
+}
+
+/**
+ * 原地修改对象的存储类型（如将旧日志转为低频访问存储，无需等待生命周期规则）
+ *
+ * 通过将对象复制到自身实现，响应头和自定义元数据保持不变；超过 5 GB 的对象自动使用分段复制。
+ * 对象已是目标存储类型时不发起复制。对象在修改过程中被覆盖时抛出 PreconditionFailedError。
+ * @param bucketName 存储桶名称
+ * @param key 对象键
+ * @param storageClass 目标存储类型
+ * @param options 可选配置（分段复制相关配置同 copyLargeObject）
+ * @returns 复制结果（未发起复制时为对象当前的 ETag 和大小）
+ *
+ * @example
+ * ```typescript
+ * for await (const object of iterateObjects('logs', { prefix: '2023/' })) {
+ *   if (object.StorageClass !== 'STANDARD_IA') {
+ *     await setStorageClass('logs', object.Key!, 'STANDARD_IA');
+ *   }
+ * }
+ * ```
+ */
+export async function setStorageClass(
+  bucketName: string,
+  key: string,
+  storageClass: R2StorageClass,
+  options?: Omit<CopyOptions, keyof ObjectHeaders | 'metadata' | 'storageClass'>
+): Promise<CopyResult> {
+  const signal = createRequestSignal(options);
+  const source = await headObject(bucketName, key, { signal });
+
+  if (source.StorageClass === storageClass) {
+    return {
+      key,
+      etag: source.ETag,
+      versionId: source.VersionId,
+      size: source.ContentLength ?? 0,
+      multipart: false,
+    };
+  }
+
+  return await copyFromSource(bucketName, key, bucketName, key, source, undefined, {
+    ...options,
+    storageClass,
+    signal,
+    timeout: undefined,
+  });
+}
+
+/**
+ * 根据源对象的元数据执行复制，按大小选择单次复制或分段复制
+ * @param sourceBucket 源存储桶名称
+ * @param sourceKey 源对象键
+ * @param destinationBucket 目标存储桶名称
+ * @param destinationKey 目标对象键
+ * @param source 源对象的 headObject 结果
+ * @param replacement 目标对象完整的响应头和元数据，省略时沿用源对象
+ * @param options 复制配置
+ * @returns 复制结果
+ */
+async function copyFromSource(
+  sourceBucket: string,
+  sourceKey: string,
+  destinationBucket: string,
+  destinationKey: string,
+  source: HeadObjectCommandOutput,
+  replacement: { headers: ObjectHeaders; metadata?: Record<string, string> } | undefined,
+  options: CopyOptions
+): Promise<CopyResult> {
+  const signal = options.signal;
+  const size = source.ContentLength ?? 0;
+  const sourceConditions = source.ETag ? { ifMatch: source.ETag } : undefined;
+  // 复制时不指定存储类型会改用存储桶的默认存储类型，因此默认沿用源对象
+  const storageClass = options.storageClass ?? (source.StorageClass as R2StorageClass | undefined);
+
+  if (size <= (options.multipartThreshold ?? DEFAULT_COPY_THRESHOLD)) {
+    const result = await copyObject(sourceBucket, sourceKey, destinationBucket, destinationKey, {
+      ...(replacement
+        ? { ...replacement.headers, metadata: replacement.metadata, metadataDirective: 'REPLACE' }
+        : {}),
+      storageClass,
+      sourceConditions,
+      signal,
+    });
+    options.onProgress?.({ loaded: size, total: size });
+
+    return {
+      key: destinationKey,
+      etag: result.CopyObjectResult?.ETag,
+      versionId: result.VersionId,
+      size,
+      multipart: false,
+    };
+  }
+
+  // 分段复制不会自动沿用源对象的响应头和元数据
+  const target = replacement ?? { headers: fromHeaderOutput(source), metadata: source.Metadata };
+  const { UploadId } = await createMultipartUpload(destinationBucket, destinationKey, {
+    ...target.headers,
+    metadata: target.metadata,
+    storageClass,
+    signal,
+  });
+  if (!UploadId) {
+    throw new R2Error('Failed to create multipart upload: no UploadId returned', {
+      bucket: destinationBucket,
+      key: destinationKey,
+    });
+  }
+
+  const partSize = resolvePartSize(options.partSize ?? DEFAULT_COPY_PART_SIZE, size);
+  const partCount = Math.ceil(size / partSize);
+  let loaded = 0;
+
+  try {
+    const completed = await mapConcurrent(
+      Array.from({ length: partCount }, (_, i) => i + 1),
+      options?.concurrency ?? DEFAULT_CONCURRENCY,
+      async (partNumber) => {
+        const start = (partNumber - 1) * partSize;
+        const end = Math.min(start + partSize, size) - 1;
+        const { CopyPartResult } = await uploadPartCopy(
+          destinationBucket,
+          destinationKey,
+          UploadId,
+          partNumber,
+          sourceBucket,
+          sourceKey,
+          { copySourceRange: `bytes=${start}-${end}`, sourceConditions, signal }
+        );
+        if (!CopyPartResult?.ETag) {
+          throw new R2Error(`Part ${partNumber} copied without an ETag`, {
+            bucket: destinationBucket,
+            key: destinationKey,
+          });
+        }
+        loaded += end - start + 1;
+        options?.onProgress?.({ loaded, total: size });
+        return { PartNumber: partNumber, ETag: CopyPartResult.ETag };
+      }
+    );
+
+    completed.sort((a, b) => a.PartNumber - b.PartNumber);
+    const result = await completeMultipartUpload(
+      destinationBucket,
+      destinationKey,
+      UploadId,
+      completed,
+      { signal }
+    );
+
+    return {
+      key: destinationKey,
+      etag: result.ETag,
+      versionId: result.VersionId,
+      size,
+      multipart: true,
+      uploadId: UploadId,
+    };
+  } catch (error) {
+    // 中止不使用调用方的取消信号，保证取消或超时后也能清理
+    await abortMultipartUpload(destinationBucket, destinationKey, UploadId).catch(
+      () => undefined
+    );
+    throw error;
+  }
 }
@@ -0,0 +1,250 @@
+import { createRequestSignal, type RequestOptions } from './config.js';
+import { iteratePages } from './download.js';
+
+/**
+ * 默认的对象年龄分段（天）：1 天内、1-7 天、7-30 天、30-90 天、90-365 天、一年以上
+ */
+export const DEFAULT_AGE_BUCKETS = [1, 7, 30, 90, 365] as const;
+
+/**
+ * 对象数量与总大小
+ */
+export interface UsageStats {
+  count: number;
+  /** 总字节数 */
+  bytes: number;
+}
+
+/**
+ * 某个前缀（目录）下的用量，包含所有子目录中的对象
+ */
+export interface PrefixUsage extends UsageStats {
+  /** 完整前缀，如 "logs/2024/" */
+  prefix: string;
+  /** 相对于统计起始前缀的层级，从 1 开始 */
+  depth: number;
+}
+
+/**
+ * 某个年龄分段内的用量（按最后修改时间计算）
+ */
+export interface AgeUsage extends UsageStats {
+  /** 分段下限（天，包含） */
+  minDays: number;
+  /** 分段上限（天，不包含），最后一个分段为 undefined */
+  maxDays?: number;
+}
+
+/**
+ * 用量报告中的大对象
+ */
+export interface LargeObject {
+  key: string;
+  size: number;
+  lastModified?: Date;
+  storageClass?: string;
+}
+
+/**
+ * 用量统计配置（timeout 覆盖整个统计过程）
+ */
+export interface UsageOptions extends RequestOptions {
+  /** 只统计该前缀下的对象，如 "logs/"（不以分隔符结尾时自动补上），默认整个存储桶 */
+  prefix?: string;
+  /** 按前缀汇总的层级数，默认 1（只汇总第一层目录），0 表示不按前缀汇总 */
+  depth?: number;
+  /** 目录分隔符，默认 "/" */
+  delimiter?: string;
+  /** 报告中列出的最大对象数，默认 10 */
+  top?: number;
+  /** 年龄分段的边界（天），默认 DEFAULT_AGE_BUCKETS */
+  ageBuckets?: readonly number[];
+  /** 每处理完一页对象后回调 */
+  onProgress?: (progress: UsageStats) => void;
+}
+
+/**
+ * 用量报告（可直接 JSON.stringify 输出给脚本使用）
+ */
+export interface UsageReport {
+  bucket: string;
+  /** 统计起始前缀（以分隔符结尾），整个存储桶时为空字符串 */
+  prefix: string;
+  total: UsageStats;
+  /** 直接位于起始前缀下、不在任何子目录中的对象 */
+  files: UsageStats;
+  /** 各层级前缀的用量，按前缀排序（第一层的前缀与 files 合计等于 total） */
+  prefixes: PrefixUsage[];
+  /** 按扩展名（小写，如 ".jpg"，无扩展名为 ""）汇总，按大小降序 */
+  byExtension: Array<UsageStats & { extension: string }>;
+  /** 按扩展名推断的内容类型汇总（列表接口不返回对象的实际 Content-Type），按大小降序 */
+  byContentType: Array<UsageStats & { contentType: string }>;
+  /** 按存储类型汇总，按大小降序 */
+  byStorageClass: Array<UsageStats & { storageClass: string }>;
+  /** 按年龄分段汇总，按分段顺序 */
+  byAge: AgeUsage[];
+  /** 最大的对象，按大小降序 */
+  largest: LargeObject[];
+  generatedAt: Date;
+}
+
+/**
+ * 累加到分组统计中
+ * @param groups 分组统计
+ * @param key 分组键
+ * @param size 对象大小
+ */
+function addToGroup(groups: Map<string, UsageStats>, key: string, size: number) {
+  const stats = groups.get(key);
+  if (stats) {
+    stats.count += 1;
+    stats.bytes += size;
+  } else {
+    groups.set(key, { count: 1, bytes: size });
+  }
+}
+
+/**
+ * 将分组统计转换为按大小降序排列的数组
+ * @param groups 分组统计
+ * @param field 分组键在结果中的字段名
+ */
+function sortGroups<K extends string>(groups: Map<string, UsageStats>, field: K) {
+  return [...groups]
+    .map(([key, stats]) => ({ [field]: key, ...stats }) as UsageStats & Record<K, string>)
+    .sort((a, b) => b.bytes - a.bytes);
+}
+
+/**
+ * 获取对象键的扩展名
+ * @param key 对象键
+ * @param delimiter 目录分隔符
+ * @returns 小写扩展名（含点），没有扩展名时为空字符串
+ */
+function getExtension(key: string, delimiter: string) {
+  const name = key.slice(key.lastIndexOf(delimiter) + 1);
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot).toLowerCase() : '';
+}
+
+/**
+ * 根据扩展名推断内容类型
+ * @param extension 扩展名
+ */
+function inferContentType(extension: string) {
+  return extension
+    ? Bun.file(`file${extension}`).type.split(';')[0]!
+    : 'application/octet-stream';
+}
+
+/**
+ * 统计存储桶或前缀的用量
+ *
+ * 逐页遍历对象列表并累加统计，内存占用只与目录数量和 top 有关，不会保存所有对象键。
+ * 目录占位对象（键以分隔符结尾）不计入统计。前缀不以分隔符结尾时自动补上，
+ * 因此 "logs" 只统计 "logs/" 下的对象，不包括 "logs2/"。
+ * @param bucketName 存储桶名称
+ * @param options 可选配置
+ * @returns 用量报告
+ *
+ * @example
+ * ```typescript
+ * const report = await computeUsage('my-bucket', { prefix: 'logs/', depth: 2, top: 20 });
+ * for (const { prefix, count, bytes } of report.prefixes) console.log(prefix, count, bytes);
+ * await Bun.write('usage.json', JSON.stringify(report, null, 2));
+ * ```
+ */
+export async function computeUsage(
+  bucketName: string,
+  options?: UsageOptions
+): Promise<UsageReport> {
+  const signal = createRequestSignal(options);
+  const delimiter = options?.delimiter ?? '/';
+  const rawPrefix = options?.prefix ?? '';
+  const prefix = rawPrefix && !rawPrefix.endsWith(delimiter) ? rawPrefix + delimiter : rawPrefix;
+  const depth = Math.max(0, options?.depth ?? 1);
+  const top = Math.max(0, options?.top ?? 10);
+  const boundaries = [...(options?.ageBuckets ?? DEFAULT_AGE_BUCKETS)].sort((a, b) => a - b);
+  const now = Date.now();
+
+  const total: UsageStats = { count: 0, bytes: 0 };
+  const files: UsageStats = { count: 0, bytes: 0 };
+  const prefixes = new Map<string, PrefixUsage>();
+  const extensions = new Map<string, UsageStats>();
+  const contentTypes = new Map<string, UsageStats>();
+  const storageClasses = new Map<string, UsageStats>();
+  const byAge: AgeUsage[] = [0, ...boundaries].map((minDays, index) => ({
+    minDays,
+    maxDays: boundaries[index],
+    count: 0,
+    bytes: 0,
+  }));
+  const largest: LargeObject[] = [];
+
+  for await (const page of iteratePages(bucketName, { prefix: prefix || undefined, signal })) {
+    for (const object of page.objects) {
+      const key = object.Key;
+      if (!key || key.endsWith(delimiter)) {
+        continue;
+      }
+      const size = object.Size ?? 0;
+      total.count += 1;
+      total.bytes += size;
+
+      // 累加到各层级的前缀，直接位于起始前缀下的对象单独汇总
+      const segments = key.slice(prefix.length).split(delimiter);
+      if (segments.length === 1) {
+        files.count += 1;
+        files.bytes += size;
+      }
+      let current = prefix;
+      for (let level = 1; level <= Math.min(depth, segments.length - 1); level++) {
+        current += segments[level - 1] + delimiter;
+        const usage = prefixes.get(current);
+        if (usage) {
+          usage.count += 1;
+          usage.bytes += size;
+        } else {
+          prefixes.set(current, { prefix: current, depth: level, count: 1, bytes: size });
+        }
+      }
+
+      const extension = getExtension(key, delimiter);
+      addToGroup(extensions, extension, size);
+      addToGroup(contentTypes, inferContentType(extension), size);
+      addToGroup(storageClasses, object.StorageClass ?? 'STANDARD', size);
+
+      const ageDays = (now - (object.LastModified?.getTime() ?? now)) / 86_400_000;
+      const age = byAge.find((bucket) => bucket.maxDays === undefined || ageDays < bucket.maxDays)!;
+      age.count += 1;
+      age.bytes += size;
+
+      // 只保留最大的 top 个对象
+      if (top > 0 && (largest.length < top || size > largest.at(-1)!.size)) {
+        const index = largest.findIndex((item) => item.size < size);
+        largest.splice(index === -1 ? largest.length : index, 0, {
+          key,
+          size,
+          lastModified: object.LastModified,
+          storageClass: object.StorageClass,
+        });
+        largest.length = Math.min(largest.length, top);
+      }
+    }
+    options?.onProgress?.({ ...total });
+  }
+
+  return {
+    bucket: bucketName,
+    prefix,
+    total,
+    files,
+    prefixes: [...prefixes.values()].sort((a, b) => a.prefix.localeCompare(b.prefix)),
+    byExtension: sortGroups(extensions, 'extension'),
+    byContentType: sortGroups(contentTypes, 'contentType'),
+    byStorageClass: sortGroups(storageClasses, 'storageClass'),
+    byAge,
+    largest,
+    generatedAt: new Date(now),
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * 以有限并发处理可迭代对象中的每一项
+ *
+ * 多个工作协程共享同一个迭代器依次取任务；任一任务失败后不再领取新任务，
+ * 等待已在进行中的任务结束后抛出第一个错误。
+ * @param items 任务来源（同步或异步可迭代对象）
+ * @param concurrency 最大并发数
+ * @param fn 处理函数
+ * @returns 按完成顺序排列的处理结果
+ */
+export async function mapConcurrent<T, R>(
+  items: Iterable<T> | AsyncIterable<T>,
+  concurrency: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const iterator =
+    Symbol.asyncIterator in items
+      ? items[Symbol.asyncIterator]()
+      : items[Symbol.iterator]();
+
+  const results: R[] = [];
+  let failure: { error: unknown } | null = null;
+
+  const worker = async () => {
+    while (!failure) {
+      const next = await iterator.next();
+      if (next.done || failure) {
+        return;
+      }
+      try {
+        results.push(await fn(next.value));
+      } catch (error) {
+        failure ??= { error };
+      }
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, concurrency) }, () =>
+    worker().catch((error) => {
+      failure ??= { error };
+    })
+  );
+  await Promise.all(workers);
+
+  if (failure) {
+    throw (failure as { error: unknown }).error;
+  }
+
+  return results;
+}
+
+/**
+ * 将多个字节块合并为一个 Uint8Array
+ * @param chunks 字节块数组
+ * @param totalLength 总长度（可选，省略时自动计算）
+ * @returns 合并后的字节数组
+ */
+export function concatBytes(chunks: Uint8Array[], totalLength?: number): Uint8Array {
+  const length = totalLength ?? chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0);
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return result;
+}